@@ -6,6 +6,39 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
+import PdfPasswordDialog from "@/components/PdfPasswordDialog";
+import TransactionGrid from "@/components/TransactionGrid";
+import { usePdfPassword } from "@/hooks/use-pdf-password";
+import { useReviewThreshold } from "@/hooks/use-review-threshold";
+import { loadLibraries, loadTesseract, loadXlsx } from "@/lib/libraries";
+import { isPasswordSkipped } from "@/lib/pdf";
+import {
+  AUTO_OCR_LANGUAGES,
+  createProgressTracker,
+  describePageSources,
+  describeProgress,
+  formatDuration,
+  formatPageList,
+  isAbortError,
+  ocrLanguageChoices,
+  pageSources,
+  processStatement,
+  type ConversionProgress,
+  type ProcessedStatement
+} from "@/lib/pipeline";
+import {
+  absMoney,
+  formatMoney,
+  needsReview,
+  REVIEW_THRESHOLDS,
+  recordsToSheetRows,
+  reviewQueue,
+  revalidateTransactions,
+  summarizeStrategies,
+  toSheetRows,
+  type BankStatementData,
+  type ExtractedTransaction
+} from "@/lib/statement";
 import {
   Upload, X, Eye, Download, ZoomIn, ZoomOut, ChevronUp, ChevronDown,
   FileText, Table, MessageSquare, CheckCircle, AlertTriangle, Loader2
@@ -19,75 +52,18 @@ interface UploadedFile {
   accuracy?: number;
 }
 
-interface ExtractedTransaction {
-  date: string;
-  description: string;
-  amount: number;
-  type: 'debit' | 'credit';
-  balance?: number;
-  reference?: string;
-  confidence: number;
-}
-
-interface BankStatementData {
-  fileName: string;
-  bankName: string;
-  accountNumber: string;
-  accountHolder: string;
-  statementPeriod: string;
-  transactions: ExtractedTransaction[];
-  accuracy: number;
-  processingMethod: string;
-}
-
 interface ExtractionConfig {
   useAdvancedOCR: boolean;
   enableTableDetection: boolean;
   multiPassExtraction: boolean;
+  // Multi-pass also votes with an OCR reading of pages that have a text layer
+  ocrCrossCheck: boolean;
+  // Balance and summary checks, and holding the export for rows under review
   enableValidation: boolean;
-  confidenceThreshold: number;
+  // Tesseract languages such as "eng+hin", or auto
+  ocrLanguages: string;
 }
 
-// Bank-specific patterns and rules
-const BANK_PATTERNS = {
-  SBI: {
-    name: "State Bank of India",
-    patterns: {
-      dateFormats: [/(\d{2}\/\d{2}\/\d{4})/g, /(\d{2}-\d{2}-\d{4})/g],
-      amountFormats: [/(\d{1,3}(?:,\d{2,3})*\.\d{2})/g],
-      transactionLine: /^(\d{2}\/\d{2}\/\d{4})\s+(.+?)\s+(\d{1,3}(?:,\d{2,3})*\.\d{2})\s*([CD]R)?\s*(\d{1,3}(?:,\d{2,3})*\.\d{2})?/,
-      referencePattern: /REF[:\s]+([A-Z0-9]+)/i
-    }
-  },
-  HDFC: {
-    name: "HDFC Bank",
-    patterns: {
-      dateFormats: [/(\d{2}\/\d{2}\/\d{2})/g, /(\d{2}-\d{2}-\d{2})/g],
-      amountFormats: [/(\d{1,3}(?:,\d{2,3})*\.\d{2})/g],
-      transactionLine: /^(\d{2}\/\d{2}\/\d{2})\s+(.+?)\s+(\d{1,3}(?:,\d{2,3})*\.\d{2})\s*([CD]R)?\s*(\d{1,3}(?:,\d{2,3})*\.\d{2})?/,
-      referencePattern: /TXN[:\s]+([A-Z0-9]+)/i
-    }
-  },
-  ICICI: {
-    name: "ICICI Bank",
-    patterns: {
-      dateFormats: [/(\d{2}\/\d{2}\/\d{4})/g, /(\d{2}-\d{2}-\d{4})/g],
-      amountFormats: [/(\d{1,3}(?:,\d{2,3})*\.\d{2})/g],
-      transactionLine: /^(\d{2}\/\d{2}\/\d{4})\s+(.+?)\s+(\d{1,3}(?:,\d{2,3})*\.\d{2})\s*([CD]R)?\s*(\d{1,3}(?:,\d{2,3})*\.\d{2})?/,
-      referencePattern: /REF NO[:\s]+([A-Z0-9]+)/i
-    }
-  },
-  AXIS: {
-    name: "Axis Bank",
-    patterns: {
-      dateFormats: [/(\d{2}\/\d{2}\/\d{4})/g, /(\d{2}-\d{2}-\d{4})/g],
-      amountFormats: [/(\d{1,3}(?:,\d{2,3})*\.\d{2})/g],
-      transactionLine: /^(\d{2}\/\d{2}\/\d{4})\s+(.+?)\s+(\d{1,3}(?:,\d{2,3})*\.\d{2})\s*([CD]R)?\s*(\d{1,3}(?:,\d{2,3})*\.\d{2})?/,
-      referencePattern: /UTR[:\s]+([A-Z0-9]+)/i
-    }
-  }
-};
-
 const EnhancedBankStatementParser = () => {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -102,65 +78,34 @@ const EnhancedBankStatementParser = () => {
     useAdvancedOCR: true,
     enableTableDetection: true,
     multiPassExtraction: true,
+    // OCRs every page on top of its text layer, so it's opt-in
+    ocrCrossCheck: false,
     enableValidation: true,
-    confidenceThreshold: 0.7
+    ocrLanguages: AUTO_OCR_LANGUAGES
   });
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [librariesLoaded, setLibrariesLoaded] = useState(false);
+  const { openDocument, dialogProps: passwordDialogProps } = usePdfPassword();
+  // Rows with a cell read below this confidence (0–1) wait for review before export
+  const { threshold: reviewThreshold, setThreshold: setReviewThreshold } = useReviewThreshold();
+  // Aborts the batch in progress
+  const abortRef = useRef<AbortController | null>(null);
 
-  // Load external libraries
+  // Load the bundled processing libraries
   useEffect(() => {
-    const loadLibraries = async () => {
-      try {
-        setProcessingStatus("Loading processing libraries...");
-        
-        // Load PDF.js
-        if (!window.pdfjsLib) {
-          const script1 = document.createElement('script');
-          script1.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
-          document.head.appendChild(script1);
-          
-          await new Promise((resolve) => {
-            script1.onload = resolve;
-          });
-          
-          window.pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-        }
-
-        // Load Tesseract.js for OCR
-        if (!window.Tesseract) {
-          const script2 = document.createElement('script');
-          script2.src = 'https://unpkg.com/tesseract.js@4.1.1/dist/tesseract.min.js';
-          document.head.appendChild(script2);
-          
-          await new Promise((resolve) => {
-            script2.onload = resolve;
-          });
-        }
-
-        // Load XLSX for Excel export
-        if (!window.XLSX) {
-          const script3 = document.createElement('script');
-          script3.src = 'https://cdnjs.cloudflare.com/ajax/libs/xlsx/0.18.5/xlsx.full.min.js';
-          document.head.appendChild(script3);
-          
-          await new Promise((resolve) => {
-            script3.onload = resolve;
-          });
-        }
-
+    setProcessingStatus("Loading processing libraries...");
+    loadLibraries()
+      .then(() => {
         setLibrariesLoaded(true);
         setProcessingStatus("Ready to process bank statements");
         toast.success("Processing libraries loaded successfully!");
-      } catch (error) {
+      })
+      .catch(error => {
         console.error('Error loading libraries:', error);
         toast.error("Failed to load processing libraries");
         setProcessingStatus("Error loading libraries");
-      }
-    };
-
-    loadLibraries();
+      });
   }, []);
 
   // Enhanced file upload handler
@@ -198,318 +143,30 @@ const EnhancedBankStatementParser = () => {
     }
   };
 
-  // Enhanced PDF text extraction with multiple methods
-  const extractTextFromPDF = async (file: File): Promise<{ text: string; method: string; confidence: number }> => {
-    try {
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await window.pdfjsLib.getDocument(arrayBuffer).promise;
-      let fullText = '';
-      let confidence = 0.9; // High confidence for digital text
-
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items.map((item: any) => item.str).join(' ');
-        fullText += pageText + '\n';
-      }
-
-      if (fullText.trim().length > 100) {
-        return { text: fullText, method: 'Digital Text Extraction', confidence };
-      } else {
-        // Fallback to OCR if digital text is insufficient
-        return await extractTextWithOCR(file);
-      }
-    } catch (error) {
-      console.error('PDF text extraction failed:', error);
-      return await extractTextWithOCR(file);
-    }
-  };
-
-  // Enhanced OCR with image preprocessing
-  const extractTextWithOCR = async (file: File): Promise<{ text: string; method: string; confidence: number }> => {
-    try {
-      setProcessingStatus("Running advanced OCR...");
-      
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await window.pdfjsLib.getDocument(arrayBuffer).promise;
-      let fullText = '';
-      let totalConfidence = 0;
-      let pageCount = 0;
-
-      for (let i = 1; i <= Math.min(pdf.numPages, 10); i++) { // Limit to first 10 pages
-        const page = await pdf.getPage(i);
-        const viewport = page.getViewport({ scale: 2.0 });
-        
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d')!;
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-
-        await page.render({ canvasContext: context, viewport }).promise;
-        
-        // Enhanced OCR with better configuration
-        const result = await window.Tesseract.recognize(canvas, 'eng', {
-          logger: (m: any) => {
-            if (m.status === 'recognizing text') {
-              setProcessingProgress(prev => Math.min(prev + 2, 90));
-            }
-          },
-          tessedit_char_whitelist: '0123456789.,/-: ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
-          tessedit_pageseg_mode: '6' // Uniform block of text
-        });
-
-        fullText += result.data.text + '\n';
-        totalConfidence += result.data.confidence;
-        pageCount++;
-      }
-
-      const avgConfidence = pageCount > 0 ? totalConfidence / pageCount / 100 : 0.6;
-      return { text: fullText, method: 'Advanced OCR', confidence: avgConfidence };
-    } catch (error) {
-      console.error('OCR extraction failed:', error);
-      throw new Error('Failed to extract text using OCR');
-    }
-  };
-
-  // Enhanced bank statement parsing with multiple patterns
-  const parseBankStatementData = (text: string, fileName: string): BankStatementData => {
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
-    
-    // Detect bank type
-    let detectedBank = 'UNKNOWN';
-    let bankInfo = null;
-    
-    for (const [bankCode, info] of Object.entries(BANK_PATTERNS)) {
-      if (text.toUpperCase().includes(info.name.toUpperCase()) || 
-          text.toUpperCase().includes(bankCode)) {
-        detectedBank = bankCode;
-        bankInfo = info;
-        break;
-      }
-    }
-
-    // Extract account information
-    const accountNumber = extractAccountNumber(text);
-    const accountHolder = extractAccountHolder(text);
-    const statementPeriod = extractStatementPeriod(text);
-
-    // Enhanced transaction extraction
-    const transactions = extractTransactions(lines, bankInfo);
-    
-    // Calculate overall accuracy
-    const accuracy = calculateAccuracy(transactions, text);
-
+  // Shape the engine's result for the results list and exports
+  const toBankStatementData = ({ pages, parsed }: ProcessedStatement, fileName: string): BankStatementData => {
+    const strategies = summarizeStrategies(parsed.transactions);
     return {
       fileName,
-      bankName: bankInfo?.name || `Unknown Bank (${detectedBank})`,
-      accountNumber,
-      accountHolder,
-      statementPeriod,
-      transactions,
-      accuracy,
-      processingMethod: config.multiPassExtraction ? 'Multi-pass Analysis' : 'Single-pass Analysis'
+      bankName: parsed.header.bankName || 'Unknown Bank',
+      accountNumber: parsed.header.accountNumber || 'Not Found',
+      accountHolder: parsed.header.accountHolder || 'Not Found',
+      statementPeriod: parsed.header.statementPeriod || 'Not Found',
+      transactions: parsed.transactions,
+      accuracy: parsed.accuracy,
+      processingMethod: strategies ? `Multi-pass Analysis (${strategies})` : 'Single-pass Analysis',
+      reconciliation: parsed.reconciliation,
+      totals: parsed.totals,
+      summaryChecks: parsed.summaryChecks,
+      pageSources: pageSources(pages)
     };
   };
 
-  // Enhanced transaction extraction with confidence scoring
-  const extractTransactions = (lines: string[], bankInfo: any): ExtractedTransaction[] => {
-    const transactions: ExtractedTransaction[] = [];
-    
-    for (const line of lines) {
-      const transaction = parseTransactionLine(line, bankInfo);
-      if (transaction) {
-        transactions.push(transaction);
-      }
-    }
-
-    // Remove duplicates and validate
-    const uniqueTransactions = removeDuplicateTransactions(transactions);
-    
-    // Apply confidence scoring
-    return uniqueTransactions.map(transaction => ({
-      ...transaction,
-      confidence: calculateTransactionConfidence(transaction, bankInfo)
-    }));
-  };
-
-  // Parse individual transaction line with enhanced pattern matching
-  const parseTransactionLine = (line: string, bankInfo: any): ExtractedTransaction | null => {
-    try {
-      // Try bank-specific pattern first
-      if (bankInfo?.patterns?.transactionLine) {
-        const match = line.match(bankInfo.patterns.transactionLine);
-        if (match) {
-          return {
-            date: formatDate(match[1]),
-            description: match[2].trim(),
-            amount: parseFloat(match[3].replace(/,/g, '')),
-            type: determineTransactionType(match[4], match[2]),
-            balance: match[5] ? parseFloat(match[5].replace(/,/g, '')) : undefined,
-            reference: extractReference(line, bankInfo),
-            confidence: 0.9
-          };
-        }
-      }
-
-      // Fallback to generic patterns
-      const genericPatterns = [
-        /(\d{2}\/\d{2}\/\d{4})\s+(.+?)\s+(\d{1,3}(?:,\d{2,3})*\.\d{2})/,
-        /(\d{2}-\d{2}-\d{4})\s+(.+?)\s+(\d{1,3}(?:,\d{2,3})*\.\d{2})/
-      ];
-
-      for (const pattern of genericPatterns) {
-        const match = line.match(pattern);
-        if (match) {
-          return {
-            date: formatDate(match[1]),
-            description: match[2].trim(),
-            amount: parseFloat(match[3].replace(/,/g, '')),
-            type: determineTransactionType('', match[2]),
-            confidence: 0.7
-          };
-        }
-      }
-
-      return null;
-    } catch (error) {
-      return null;
-    }
-  };
-
-  // Utility functions
-  const extractAccountNumber = (text: string): string => {
-    const patterns = [
-      /Account.*?Number[:\s]*([0-9X]+)/i,
-      /A\/C[:\s]*([0-9X]+)/i,
-      /Account[:\s]*([0-9X]+)/i
-    ];
-    
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) return match[1];
-    }
-    
-    return 'Not Found';
-  };
-
-  const extractAccountHolder = (text: string): string => {
-    const patterns = [
-      /Account Holder[:\s]*([A-Za-z\s]+)/i,
-      /Name[:\s]*([A-Za-z\s]+)/i
-    ];
-    
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) return match[1].trim();
-    }
-    
-    return 'Not Found';
-  };
-
-  const extractStatementPeriod = (text: string): string => {
-    const patterns = [
-      /Statement Period[:\s]*([0-9\/\-\s]+to[0-9\/\-\s]+)/i,
-      /Period[:\s]*([0-9\/\-\s]+to[0-9\/\-\s]+)/i
-    ];
-    
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) return match[1].trim();
-    }
-    
-    return 'Not Found';
-  };
-
-  const formatDate = (dateStr: string): string => {
-    // Convert various date formats to standard format
-    const date = new Date(dateStr.replace(/(\d{2})\/(\d{2})\/(\d{2,4})/, '$2/$1/$3'));
-    return date.toISOString().split('T')[0];
-  };
-
-  const determineTransactionType = (indicator: string, description: string): 'debit' | 'credit' => {
-    if (indicator) {
-      return indicator.toLowerCase().includes('cr') ? 'credit' : 'debit';
-    }
-    
-    // Analyze description for credit/debit indicators
-    const creditKeywords = ['deposit', 'credit', 'salary', 'transfer in', 'interest'];
-    const debitKeywords = ['withdrawal', 'debit', 'payment', 'transfer out', 'charge'];
-    
-    const desc = description.toLowerCase();
-    
-    if (creditKeywords.some(keyword => desc.includes(keyword))) {
-      return 'credit';
-    }
-    
-    if (debitKeywords.some(keyword => desc.includes(keyword))) {
-      return 'debit';
-    }
-    
-    return 'debit'; // Default assumption
-  };
-
-  const extractReference = (line: string, bankInfo: any): string | undefined => {
-    if (bankInfo?.patterns?.referencePattern) {
-      const match = line.match(bankInfo.patterns.referencePattern);
-      return match ? match[1] : undefined;
-    }
-    return undefined;
-  };
-
-  const removeDuplicateTransactions = (transactions: ExtractedTransaction[]): ExtractedTransaction[] => {
-    const seen = new Set();
-    return transactions.filter(transaction => {
-      const key = `${transaction.date}-${transaction.amount}-${transaction.description.slice(0, 20)}`;
-      if (seen.has(key)) {
-        return false;
-      }
-      seen.add(key);
-      return true;
-    });
-  };
-
-  const calculateTransactionConfidence = (transaction: ExtractedTransaction, bankInfo: any): number => {
-    let confidence = 0.8; // Base confidence
-    
-    // Date validation
-    if (isValidDate(transaction.date)) confidence += 0.1;
-    
-    // Amount validation
-    if (transaction.amount > 0) confidence += 0.05;
-    
-    // Description quality
-    if (transaction.description.length > 5) confidence += 0.05;
-    
-    return Math.min(confidence, 1.0);
-  };
-
-  const isValidDate = (dateStr: string): boolean => {
-    const date = new Date(dateStr);
-    return date instanceof Date && !isNaN(date.getTime());
-  };
-
-  const calculateAccuracy = (transactions: ExtractedTransaction[], text: string): number => {
-    if (transactions.length === 0) return 0;
-    
-    const avgConfidence = transactions.reduce((sum, t) => sum + t.confidence, 0) / transactions.length;
-    
-    // Additional accuracy factors
-    let accuracyBonus = 0;
-    
-    // Check for complete data
-    const completeTransactions = transactions.filter(t => 
-      t.date && t.description && t.amount && t.type
-    ).length;
-    
-    accuracyBonus += (completeTransactions / transactions.length) * 0.1;
-    
-    // Check for reference numbers
-    const withReferences = transactions.filter(t => t.reference).length;
-    if (withReferences > 0) {
-      accuracyBonus += 0.05;
-    }
-    
-    return Math.min((avgConfidence + accuracyBonus) * 100, 100);
+  // Status line and overall percentage while file `index` of the batch is processed
+  const reportProgress = (fileName: string, index: number, totalFiles: number, progress: ConversionProgress) => {
+    setProcessingProgress((index + progress.fraction) * 100 / totalFiles);
+    const eta = progress.etaMs ? ` (about ${formatDuration(progress.etaMs)} left)` : '';
+    setProcessingStatus(`${describeProgress(progress)} in ${fileName}...${eta}`);
   };
 
   // Enhanced processing function
@@ -524,6 +181,8 @@ const EnhancedBankStatementParser = () => {
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
     setProcessingProgress(0);
     setExtractedData([]);
@@ -531,8 +190,11 @@ const EnhancedBankStatementParser = () => {
     try {
       const totalFiles = uploadedFiles.length;
       const results: BankStatementData[] = [];
+      // Tesseract tuning for statement text: one uniform block, limited charset
+      const { PSM } = await loadTesseract();
+      let cancelled = false;
 
-      for (let i = 0; i < totalFiles; i++) {
+      for (let i = 0; i < totalFiles && !cancelled; i++) {
         const fileObj = uploadedFiles[i];
         
         // Update file status
@@ -543,13 +205,38 @@ const EnhancedBankStatementParser = () => {
         setProcessingStatus(`Processing ${fileObj.file.name}...`);
         
         try {
-          // Extract text using multiple methods
-          const extractionResult = await extractTextFromPDF(fileObj.file);
-          setProcessingProgress(20 + (i * 60 / totalFiles));
-
-          // Parse bank statement data
-          setProcessingStatus(`Analyzing transactions in ${fileObj.file.name}...`);
-          const parsedData = parseBankStatementData(extractionResult.text, fileObj.file.name);
+          const tracker = createProgressTracker(progress =>
+            reportProgress(fileObj.file.name, i, totalFiles, progress)
+          );
+          tracker.stage('load');
+
+          // Encrypted statements prompt for their password here
+          const pdf = await openDocument(
+            await fileObj.file.arrayBuffer(),
+            fileObj.file.name,
+            () => tracker.stage('decrypt')
+          );
+
+          const processed = await processStatement(pdf, {
+            signal: controller.signal,
+            onProgress: tracker.pipeline,
+            ocrLanguages: config.ocrLanguages,
+            ocrParameters: {
+              tessedit_char_whitelist: '0123456789.,/-: ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
+              tessedit_pageseg_mode: PSM.SINGLE_BLOCK
+            },
+            // Grayscale, binarise, deskew and strip table rules before OCR
+            preprocess: config.useAdvancedOCR,
+            // Pages with a text layer are only OCR'd to vote between readings
+            ocrTextPages: config.multiPassExtraction && config.ocrCrossCheck,
+            // Pages go through column detection when table detection is on
+            parse: { detectColumns: config.enableTableDetection, multiPass: config.multiPassExtraction }
+          });
+          const parsedData = toBankStatementData(processed, fileObj.file.name);
+          tracker.stage('done');
+          if (parsedData.pageSources.empty.length > 0) {
+            toast.warning(`${fileObj.file.name}: no text found on page(s) ${formatPageList(parsedData.pageSources.empty)}`);
+          }
           
           results.push(parsedData);
           
@@ -562,43 +249,80 @@ const EnhancedBankStatementParser = () => {
             } : f
           ));
 
-          setProcessingProgress(20 + ((i + 1) * 60 / totalFiles));
+          setProcessingProgress((i + 1) * 100 / totalFiles);
           
         } catch (error) {
+          if (isAbortError(error)) {
+            cancelled = true;
+            setUploadedFiles(prev => prev.map(f =>
+              f.id === fileObj.id ? { ...f, processingStatus: 'pending' } : f
+            ));
+            continue;
+          }
+
           console.error(`Error processing ${fileObj.file.name}:`, error);
           
           setUploadedFiles(prev => prev.map(f => 
             f.id === fileObj.id ? { ...f, processingStatus: 'error' } : f
           ));
           
-          toast.error(`Failed to process ${fileObj.file.name}`);
+          toast.error(isPasswordSkipped(error)
+            ? `${fileObj.file.name} is password protected and was skipped`
+            : `Failed to process ${fileObj.file.name}`);
         }
       }
 
       setExtractedData(results);
-      setProcessingProgress(100);
-      setProcessingStatus(`Successfully processed ${results.length} file(s)`);
-      
-      toast.success(`Processing completed! ${results.length} files processed successfully.`);
+
+      if (cancelled) {
+        setProcessingStatus(`Cancelled after ${results.length} file(s)`);
+        toast.info(`Processing cancelled. ${results.length} file(s) were processed.`);
+      } else {
+        setProcessingProgress(100);
+        setProcessingStatus(`Successfully processed ${results.length} file(s)`);
+        toast.success(`Processing completed! ${results.length} files processed successfully.`);
+      }
       
     } catch (error) {
       console.error('Processing error:', error);
       toast.error("An error occurred during processing");
       setProcessingStatus("Processing failed");
     } finally {
+      abortRef.current = null;
       setIsProcessing(false);
     }
   };
 
-  // Enhanced Excel export with multiple sheets
-  const exportToExcel = () => {
+  const cancelProcessing = () => {
+    abortRef.current?.abort();
+  };
+
+  // Nothing waits for review while validation is off
+  const pendingReview = (data: BankStatementData) =>
+    config.enableValidation ? reviewQueue(data.transactions, reviewThreshold).length : 0;
+
+  // Enhanced Excel export with multiple sheets. Rows still waiting for review
+  // hold the export back until the user chooses to go ahead. Check results are
+  // left out while validation is off.
+  const exportToExcel = async (skipReview = false) => {
     if (extractedData.length === 0) {
       toast.error("No data to export");
       return;
     }
 
+    const unreviewed = extractedData.reduce((count, data) => count + pendingReview(data), 0);
+    if (unreviewed > 0 && !skipReview) {
+      toast.warning(`${unreviewed} low-confidence ${unreviewed === 1 ? 'row has' : 'rows have'} not been reviewed`, {
+        description: 'Open a preview to review them, or export them as read.',
+        action: { label: 'Export anyway', onClick: () => exportToExcel(true) }
+      });
+      return;
+    }
+
+    const validated = config.enableValidation;
     try {
-      const workbook = window.XLSX.utils.book_new();
+      const XLSX = await loadXlsx();
+      const workbook = XLSX.utils.book_new();
 
       // Create summary sheet
       const summaryData = extractedData.map(data => ({
@@ -608,12 +332,29 @@ const EnhancedBankStatementParser = () => {
         'Account Holder': data.accountHolder,
         'Statement Period': data.statementPeriod,
         'Total Transactions': data.transactions.length,
+        'Opening Balance': data.totals.openingBalance ?? '',
+        'Closing Balance': data.totals.closingBalance ?? '',
+        'Total Debits': data.totals.totalDebits ?? '',
+        'Total Credits': data.totals.totalCredits ?? '',
+        'Summary Check': !validated || data.summaryChecks.length === 0
+          ? 'N/A'
+          : data.summaryChecks.every(check => check.passed) ? 'PASS' : 'FAIL',
+        'Failed Checks': validated
+          ? data.summaryChecks.filter(check => !check.passed).map(check => check.label).join('; ')
+          : '',
         'Accuracy (%)': Math.round(data.accuracy),
+        'Balance Checks Passed': validated && data.reconciliation
+          ? `${data.reconciliation.matchedCount}/${data.reconciliation.checkedCount}`
+          : '',
+        'Balance Issues': validated
+          ? data.reconciliation?.issues.filter(issue => issue.kind !== 'type-corrected').length ?? ''
+          : '',
         'Processing Method': data.processingMethod
       }));
 
-      const summarySheet = window.XLSX.utils.json_to_sheet(summaryData);
-      window.XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+      // Money values become numeric cells with a currency format
+      const summarySheet = XLSX.utils.aoa_to_sheet(toSheetRows(recordsToSheetRows(summaryData)));
+      XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
 
       // Create detailed transactions sheet
       const allTransactions = extractedData.flatMap(data => 
@@ -625,21 +366,28 @@ const EnhancedBankStatementParser = () => {
           'Description': transaction.description,
           'Amount': transaction.amount,
           'Type': transaction.type.toUpperCase(),
-          'Balance': transaction.balance || '',
+          'Balance': transaction.balance ?? '',
           'Reference': transaction.reference || '',
-          'Confidence (%)': Math.round(transaction.confidence * 100)
+          'Balance Check': validated ? transaction.balanceCheck?.toUpperCase() || '' : '',
+          'Page': transaction.page ?? '',
+          'Source': transaction.source === 'ocr' ? 'OCR' : transaction.source === 'text' ? 'Text layer' : '',
+          'Strategy': transaction.strategy ?? '',
+          'Confidence (%)': Math.round(transaction.confidence * 100),
+          'Review': validated && needsReview(transaction, reviewThreshold)
+            ? 'Needs review'
+            : transaction.reviewed ? 'Accepted' : ''
         }))
       );
 
-      const transactionsSheet = window.XLSX.utils.json_to_sheet(allTransactions);
-      window.XLSX.utils.book_append_sheet(workbook, transactionsSheet, 'Transactions');
+      const transactionsSheet = XLSX.utils.aoa_to_sheet(toSheetRows(recordsToSheetRows(allTransactions)));
+      XLSX.utils.book_append_sheet(workbook, transactionsSheet, 'Transactions');
 
       // Generate filename with timestamp
       const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
       const filename = `bank-statements-${timestamp}.xlsx`;
 
       // Export file
-      window.XLSX.writeFile(workbook, filename);
+      XLSX.writeFile(workbook, filename);
       
       toast.success(`Excel file exported: ${filename}`);
     } catch (error) {
@@ -654,6 +402,14 @@ const EnhancedBankStatementParser = () => {
     setShowPreview(true);
   };
 
+  // Corrections from the preview grid: checks re-run and the export uses the edited rows
+  const updatePreviewTransactions = (transactions: ExtractedTransaction[]) => {
+    if (!previewData) return;
+    const updated = { ...previewData, ...revalidateTransactions(transactions, previewData.totals) };
+    setPreviewData(updated);
+    setExtractedData(prev => prev.map(data => (data === previewData ? updated : data)));
+  };
+
   // Remove file handler
   const removeFile = (id: string) => {
     setUploadedFiles(prev => prev.filter(f => f.id !== id));
@@ -692,7 +448,7 @@ const EnhancedBankStatementParser = () => {
       <Card>
         <CardContent className="p-6">
           <h3 className="text-lg font-semibold mb-4">Processing Configuration</h3>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Advanced OCR</label>
               <div className="flex items-center space-x-2">
@@ -729,6 +485,19 @@ const EnhancedBankStatementParser = () => {
                 <span className="text-sm">Enable</span>
               </div>
             </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">OCR Cross-check</label>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={config.multiPassExtraction && config.ocrCrossCheck}
+                  disabled={!config.multiPassExtraction}
+                  onChange={(e) => setConfig(prev => ({ ...prev, ocrCrossCheck: e.target.checked }))}
+                  className="rounded"
+                />
+                <span className="text-sm">Slower</span>
+              </div>
+            </div>
             <div className="space-y-2">
               <label className="text-sm font-medium">Validation</label>
               <div className="flex items-center space-x-2">
@@ -741,6 +510,40 @@ const EnhancedBankStatementParser = () => {
                 <span className="text-sm">Enable</span>
               </div>
             </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">OCR Language</label>
+              <Select
+                value={config.ocrLanguages}
+                onValueChange={(value) => setConfig(prev => ({ ...prev, ocrLanguages: value }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ocrLanguageChoices().map(choice => (
+                    <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Review Below</label>
+              <Select
+                value={String(reviewThreshold)}
+                onValueChange={(value) => setReviewThreshold(Number(value))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REVIEW_THRESHOLDS.map(threshold => (
+                    <SelectItem key={threshold} value={String(threshold)}>
+                      {Math.round(threshold * 100)}% confidence
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -758,7 +561,7 @@ const EnhancedBankStatementParser = () => {
               Click to select PDF files or drag and drop them here
             </p>
             <p className="text-sm text-muted-foreground">
-              Supports major Indian banks: SBI, HDFC, ICICI, Axis Bank, and more
+              Supports major Indian banks: SBI, HDFC, ICICI, Axis, Kotak, PNB, Bank of Baroda, Canara, IDFC FIRST, Yes Bank, and more
             </p>
             <input
               ref={fileInputRef}
@@ -849,7 +652,13 @@ const EnhancedBankStatementParser = () => {
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-semibold">Processing Status</h3>
-                <span className="text-sm text-muted-foreground">{Math.round(processingProgress)}%</span>
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm text-muted-foreground">{Math.round(processingProgress)}%</span>
+                  <Button size="sm" variant="outline" onClick={cancelProcessing}>
+                    <X className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                </div>
               </div>
               <Progress value={processingProgress} className="w-full" />
               <p className="text-sm text-muted-foreground">{processingStatus}</p>
@@ -864,7 +673,7 @@ const EnhancedBankStatementParser = () => {
           <CardContent className="p-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold">Processing Results</h3>
-              <Button onClick={exportToExcel} className="flex items-center space-x-2">
+              <Button onClick={() => exportToExcel()} className="flex items-center space-x-2">
                 <Download className="h-4 w-4" />
                 <span>Export to Excel</span>
               </Button>
@@ -879,6 +688,17 @@ const EnhancedBankStatementParser = () => {
                       <p className="text-sm text-muted-foreground">{data.bankName}</p>
                       <p className="text-sm">Account: {data.accountNumber}</p>
                       <p className="text-sm">Transactions: {data.transactions.length}</p>
+                      {config.enableValidation && data.reconciliation && data.reconciliation.checkedCount > 0 && (
+                        <p className="text-sm">
+                          Balance checks: {data.reconciliation.matchedCount}/{data.reconciliation.checkedCount}
+                        </p>
+                      )}
+                      {data.pageSources && (
+                        <p className="text-xs text-muted-foreground">{describePageSources(data.pageSources)}</p>
+                      )}
+                      {pendingReview(data) > 0 && (
+                        <p className="text-sm text-yellow-600">{pendingReview(data)} rows need review</p>
+                      )}
                       <div className="flex items-center justify-between">
                         <Badge variant={data.accuracy >= 85 ? 'default' : data.accuracy >= 70 ? 'secondary' : 'destructive'}>
                           {Math.round(data.accuracy)}% accuracy
@@ -913,7 +733,7 @@ const EnhancedBankStatementParser = () => {
       {/* Preview Modal */}
       {showPreview && previewData && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg max-w-4xl w-full max-h-[80vh] overflow-hidden">
+          <div className="bg-white rounded-lg max-w-6xl w-full max-h-[90vh] overflow-hidden">
             <div className="p-6 border-b">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-semibold">Transaction Preview</h3>
@@ -923,7 +743,7 @@ const EnhancedBankStatementParser = () => {
               </div>
             </div>
             
-            <div className="p-6 overflow-y-auto max-h-[60vh]">
+            <div className="p-6 overflow-y-auto max-h-[75vh]">
               <div className="space-y-4 mb-6">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
@@ -945,57 +765,68 @@ const EnhancedBankStatementParser = () => {
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <h4 className="font-semibold">Transactions ({previewData.transactions.length})</h4>
-                <div className="border rounded-lg overflow-hidden">
-                  <div className="bg-muted p-2 grid grid-cols-5 gap-2 text-sm font-medium">
-                    <div>Date</div>
-                    <div>Description</div>
-                    <div>Amount</div>
-                    <div>Type</div>
-                    <div>Confidence</div>
-                  </div>
-                  {previewData.transactions.slice(0, 50).map((transaction, index) => (
-                    <div key={index} className="p-2 border-t grid grid-cols-5 gap-2 text-sm">
-                      <div>{transaction.date}</div>
-                      <div className="truncate" title={transaction.description}>
-                        {transaction.description}
-                      </div>
-                      <div>{transaction.amount.toFixed(2)}</div>
-                      <div>
-                        <Badge variant={transaction.type === 'credit' ? 'default' : 'secondary'}>
-                          {transaction.type}
-                        </Badge>
-                      </div>
-                      <div>
-                        <Badge variant={transaction.confidence >= 0.8 ? 'default' : transaction.confidence >= 0.6 ? 'secondary' : 'destructive'}>
-                          {Math.round(transaction.confidence * 100)}%
-                        </Badge>
-                      </div>
-                    </div>
-                  ))}
-                  {previewData.transactions.length > 50 && (
-                    <div className="p-2 border-t text-center text-sm text-muted-foreground">
-                      ... and {previewData.transactions.length - 50} more transactions
+              {config.enableValidation && previewData.summaryChecks.length > 0 && (
+                <div className="space-y-2 mb-6">
+                  <h4 className="font-semibold">Statement Summary</h4>
+                  <div className="border rounded-lg overflow-hidden">
+                    <div className="bg-muted p-2 grid grid-cols-4 gap-2 text-sm font-medium">
+                      <div>Check</div>
+                      <div>Statement</div>
+                      <div>Parsed</div>
+                      <div>Result</div>
                     </div>
-                  )}
+                    {previewData.summaryChecks.map((check, index) => (
+                      <div key={index} className="p-2 border-t grid grid-cols-4 gap-2 text-sm">
+                        <div>{check.label}</div>
+                        <div>{formatMoney(check.statementValue)}</div>
+                        <div>{formatMoney(check.computedValue)}</div>
+                        <div>
+                          <Badge variant={check.passed ? 'default' : 'destructive'}>
+                            {check.passed ? 'Pass' : `Off by ${formatMoney(absMoney(check.difference))}`}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
                 </div>
+              )}
+
+              {config.enableValidation && previewData.reconciliation && previewData.reconciliation.issues.length > 0 && (
+                <Alert className="mb-6">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <p className="font-medium mb-1">
+                      {previewData.reconciliation.matchedCount} of {previewData.reconciliation.checkedCount} balance checks passed
+                    </p>
+                    <ul className="list-disc pl-4 space-y-1">
+                      {previewData.reconciliation.issues.slice(0, 10).map((issue, index) => (
+                        <li key={index}>{issue.message}</li>
+                      ))}
+                    </ul>
+                    {previewData.reconciliation.issues.length > 10 && (
+                      <p className="mt-1">... and {previewData.reconciliation.issues.length - 10} more</p>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Transactions ({previewData.transactions.length})</h4>
+                <TransactionGrid
+                  key={previewData.fileName}
+                  transactions={previewData.transactions}
+                  confidenceThreshold={reviewThreshold}
+                  onChange={updatePreviewTransactions}
+                />
               </div>
             </div>
           </div>
         </div>
       )}
+
+      <PdfPasswordDialog {...passwordDialogProps} />
     </div>
   );
 };
 
-// Global type augmentation for external libraries
-declare global {
-  interface Window {
-    pdfjsLib: any;
-    Tesseract: any;
-    XLSX: any;
-  }
-}
-
 export default EnhancedBankStatementParser;
\ No newline at end of file
@@ -3,24 +3,102 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
+import PdfPasswordDialog from "@/components/PdfPasswordDialog";
+import TableLayoutOverlay, { type TableLayoutMode } from "@/components/TableLayoutOverlay";
+import TransactionGrid from "@/components/TransactionGrid";
+import { usePdfPassword } from "@/hooks/use-pdf-password";
+import { useReviewThreshold } from "@/hooks/use-review-threshold";
+import { createOcrWorker, loadLibraries } from "@/lib/libraries";
+import { isPasswordSkipped, type PdfDocument } from "@/lib/pdf";
+import {
+  AUTO_OCR_LANGUAGES,
+  buildStatementFile,
+  collectOcrWords,
+  canDetectOcrLanguages,
+  detectOcrLanguages,
+  describePageSources,
+  downloadBlob,
+  exportExtractionTemplates,
+  extractPages,
+  findMatchingTemplate,
+  fingerprintDocument,
+  invalidDateFormat,
+  formatPageList,
+  isAbortError,
+  loadExtractionTemplates,
+  mergeExtractionTemplates,
+  ocrLanguageChoices,
+  ocrWordsToItems,
+  pageInput,
+  pageSources,
+  parseExtractionTemplates,
+  parsePageRange,
+  parsePagesInWorker,
+  probeOcrLanguages,
+  processStatement,
+  saveExtractionTemplates,
+  statementSheet,
+  templateParseOptions,
+  type ExtractionTemplate,
+  type OcrMode,
+  type PageContent,
+  type StatementSheet
+} from "@/lib/pipeline";
 import { Upload, X, Eye, Download, ZoomIn, ZoomOut, ChevronUp, ChevronDown, FileText, Table, MessageSquare } from "lucide-react";
+import {
+  COLUMN_ROLE_LABELS,
+  emptyTableLayout,
+  extractStatementHeader,
+  getBankProfile,
+  groupTextItemsIntoLines,
+  headerToRecord,
+  cellBounds,
+  cellToText,
+  findTransactionAt,
+  layoutToTemplate,
+  locateHeaderFields,
+  revalidateTransactions,
+  reviewQueue,
+  setColumnRole,
+  templateToLayout,
+  textItemsToLines,
+  transactionsToRows,
+  type AmountFormat,
+  type ColumnRole,
+  type ColumnTemplate,
+  type EditableColumn,
+  type ExtractedTransaction,
+  type PdfTextItem,
+  type PageSources,
+  type StatementTotals,
+  type TableLayout,
+  type TableRegion
+} from "@/lib/statement";
 
 interface UploadedFile {
   file: File;
   id: string;
 }
 
-interface ExtractedData {
-  fileName: string;
-  header: Record<string, string>;
-  columns: string[];
-  rows: string[][];
+interface ExtractedData extends StatementSheet {
+  fileId: string;
   format: string;
+  pageSources?: PageSources;
+  // The rows behind the sheet, kept so corrections can be re-checked
+  transactions: ExtractedTransaction[];
+  totals: StatementTotals;
 }
 
+// Amount formats a template can be saved with, as "grouping|decimal separator"
+const AMOUNT_FORMAT_CHOICES = [
+  { value: 'indian|.', label: '1,00,000.00' },
+  { value: 'international|.', label: '100,000.00' },
+  { value: 'international|,', label: '100.000,00' }
+];
+
 interface InspectState {
   fileItem: UploadedFile | null;
-  pdfDoc: any;
+  pdfDoc: PdfDocument | null;
   pageNum: number;
   scale: number;
   canvas: HTMLCanvasElement | null;
@@ -43,38 +121,52 @@ const PdfConverter = () => {
     lastExtract: null
   });
   const [detectedHeader, setDetectedHeader] = useState("No header detected yet. Click Auto Extract Table or run OCR.");
-  const [tablePreview, setTablePreview] = useState("No table preview yet.");
+  // Status shown in place of the table preview while extracting; empty shows the table
+  const [tablePreview, setTablePreview] = useState("");
   const [forceOCR, setForceOCR] = useState(false);
+  // Page range to OCR instead of reading the text layer, e.g. "1-3, 7"
+  const [ocrPageRange, setOcrPageRange] = useState("");
+  const [ocrLanguages, setOcrLanguages] = useState(AUTO_OCR_LANGUAGES);
   const [mergeParticulars, setMergeParticulars] = useState(true);
+  // Pages "Export from inspector" covers; empty exports the last extracted page
+  const [exportPageRange, setExportPageRange] = useState("");
+  const { openDocument, dialogProps: passwordDialogProps } = usePdfPassword();
+  // Cells read with less confidence are highlighted and held for review
+  const { threshold: reviewThreshold } = useReviewThreshold();
+  // File being converted and its progress, shown on that file's Convert button
+  const [conversion, setConversion] = useState<{ fileId: string; status: string } | null>(null);
+  const convertAbort = useRef<AbortController | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
-  let globalColumnTemplate: any = null;
+  // Column layout detected on the current document, reused for pages without a header row
+  const globalColumnTemplate = useRef<ColumnTemplate | null>(null);
+  // Table layout drawn on the inspector canvas, and what the canvas currently shows
+  const [tableLayout, setTableLayout] = useState<TableLayout>(emptyTableLayout());
+  const [layoutMode, setLayoutMode] = useState<TableLayoutMode>('view');
+  const [renderedPage, setRenderedPage] = useState<{ width: number; height: number; scale: number } | null>(null);
+  // The inspected page as read for the live layout preview; OCR is too slow to repeat per drag
+  const layoutPage = useRef<{ pdfDoc: PdfDocument; page: PageContent } | null>(null);
+  const layoutPreviewRun = useRef(0);
+  // Saved extraction templates, the one applied to the inspected document,
+  // and the fields of the template being saved
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>(loadExtractionTemplates);
+  const [activeTemplate, setActiveTemplate] = useState<ExtractionTemplate | null>(null);
+  const [templateName, setTemplateName] = useState("");
+  const [templateDateFormats, setTemplateDateFormats] = useState("");
+  const [templateAmountFormat, setTemplateAmountFormat] = useState(AMOUNT_FORMAT_CHOICES[0].value);
+  const templateFileRef = useRef<HTMLInputElement>(null);
+  // Where a reviewed row was read: outlined on its page, and selected in
+  // whichever table it came from
+  const [sourceHighlight, setSourceHighlight] = useState<{ page: number; boxes: TableRegion[]; row: number } | null>(null);
 
-  // Load external libraries
+  // Warm up the bundled libraries; every use awaits its own loader as well
   useEffect(() => {
-    const loadLibraries = async () => {
-      if (!window.pdfjsLib) {
-        const script1 = document.createElement('script');
-        script1.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/2.14.305/pdf.min.js';
-        document.head.appendChild(script1);
-      }
-
-      if (!window.Tesseract) {
-        const script2 = document.createElement('script');
-        script2.src = 'https://cdn.jsdelivr.net/npm/tesseract.js@5.3.1/dist/tesseract.min.js';
-        document.head.appendChild(script2);
-      }
-
-      if (!window.XLSX) {
-        const script3 = document.createElement('script');
-        script3.src = 'https://cdnjs.cloudflare.com/ajax/libs/xlsx/0.18.5/xlsx.full.min.js';
-        document.head.appendChild(script3);
-      }
-    };
-
-    loadLibraries();
+    loadLibraries().catch(error => {
+      console.error('Error loading libraries:', error);
+      toast.error('Failed to load processing libraries');
+    });
   }, []);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -109,456 +201,158 @@ const PdfConverter = () => {
       return "";
     }
     
-    const dataURL = canvas.toDataURL('image/png');
     setDetectedHeader('Running OCR...');
     
-    const worker = await window.Tesseract.createWorker({logger: (m: any) => console.log(m)});
-    await worker.load();
-    await worker.loadLanguage('eng');
-    await worker.initialize('eng');
-    const { data: { text } } = await worker.recognize(dataURL);
-    await worker.terminate();
-    
-    return text;
-  };
-
-  // Extract header info
-  const extractHeaderInfo = (pageText: string) => {
-    const txt = pageText.replace(/\s+/g, ' ');
-    const out: Record<string, string> = {};
-    
-    const accMatch = txt.match(/(?:Account\s*(?:No|Number|#|:)\s*[:\-\s]*)([\w\-]{5,30})/i) || 
-                     txt.match(/A\/C\s*No[:\s]*([\w\-]{5,30})/i);
-    if (accMatch) out.Account = accMatch[1].trim();
-    
-    const ifsc = txt.match(/\b[A-Z]{4}0[A-Z0-9]{6}\b/);
-    if (ifsc) out.IFSC = ifsc[0];
-    
-    const nameMatch = txt.match(/(?:Account\s*Holder|Customer|Name)[:\s\-]*([A-Z][a-zA-Z\.\s]{2,50})/i);
-    if (nameMatch) out.Holder = nameMatch[1].trim();
-    
-    const branchMatch = txt.match(/Branch[:\s\-]*([A-Za-z0-9\.\,\-\s]{2,40})/i);
-    if (branchMatch) out.Branch = branchMatch[1].trim();
-    
-    const bankMatch = txt.match(/([A-Z][A-Z\s&]{3,30}Bank|Bank of [A-Z\s]{1,30})/);
-    if (bankMatch) out.Bank = bankMatch[0].trim();
-    
-    return out;
+    // Auto picks the languages from whatever text layer the page has, or
+    // from a probe of the page itself when it's a scan
+    let languages = ocrLanguages;
+    if (ocrLanguages === AUTO_OCR_LANGUAGES && inspectState.pdfDoc) {
+      const page = await inspectState.pdfDoc.getPage(inspectState.pageNum);
+      const text = ((await page.getTextContent()).items as PdfTextItem[]).map(item => item.str).join(' ');
+      languages = (canDetectOcrLanguages(text) ? detectOcrLanguages(text) : await probeOcrLanguages(canvas)).join('+');
+    }
+    const worker = await createOcrWorker(languages, { logger: m => console.log(m) });
+    try {
+      // Rebuild lines from word positions so table rows stay on one line
+      const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true });
+      const items = ocrWordsToItems(collectOcrWords(data.blocks), inspectState.scale, canvas.height / inspectState.scale);
+      return textItemsToLines(items).join('\n');
+    } finally {
+      await worker.terminate();
+    }
   };
 
-  // Parse bank statement from OCR - Enhanced for proper row/column extraction
-  const parseBankStatementFromOCR = (text: string) => {
-    console.log('Parsing text for transactions:', text);
-    const lines = text.split(/\r?\n/).filter(line => line.trim());
-    const rows: string[][] = [];
-    
-    // Enhanced date pattern to catch bank statement dates (DD-MM-YYYY or DD/MM/YYYY)
-    const datePattern = /^(\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4})/;
-    
-    // Bank statement transaction patterns
-    const transactionPatterns = [
-      /UPI\/P2[AM]\/\d+/i,
-      /ATM[-\s]CASH/i,
-      /BRN[-\s]/i,
-      /CLG\/\d+/i,
-      /NEFT/i,
-      /IMPS/i,
-      /RTGS/i,
-      /CHQ/i,
-      /SALARY/i,
-      /INTEREST/i
-    ];
-    
-    // Process each line individually to create separate rows
-    lines.forEach((line, index) => {
-      const trimmedLine = line.trim();
-      if (!trimmedLine || trimmedLine.length < 10) return;
-      
-      // Check if line starts with a date
-      const dateMatch = trimmedLine.match(datePattern);
-      if (!dateMatch) return;
-      
-      const transactionDate = dateMatch[1];
-      console.log('Processing transaction line:', trimmedLine);
-      
-      // Remove the date from the beginning to process the rest
-      const restOfLine = trimmedLine.substring(dateMatch[0].length).trim();
-      
-      // Split remaining line by multiple spaces or tabs to separate columns
-      const parts = restOfLine.split(/\s{2,}|\t+/).filter(p => p.trim());
-      
-      // If we don't get enough parts, try a different approach
-      if (parts.length < 2) {
-        // Try to identify amounts and reconstruct
-        const amounts = restOfLine.match(/\b\d{1,3}(?:,\d{3})*(?:\.\d{2})?\b/g) || [];
-        
-        if (amounts.length > 0) {
-          // Build description by removing amounts
-          let description = restOfLine;
-          amounts.forEach(amount => {
-            description = description.replace(new RegExp(`\\b${amount.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`), '');
-          });
-          description = description.replace(/\s+/g, ' ').trim();
-          
-          // Create row with proper structure
-          const row = ['', '', '', '', '', ''];
-          row[0] = transactionDate; // Tran Date
-          row[1] = ''; // Chq No
-          row[2] = description; // Particulars
-          
-          // Assign amounts based on context and number of amounts
-          if (amounts.length === 1) {
-            // Single amount - could be debit or credit, check context
-            if (description.toLowerCase().includes('salary') || 
-                description.toLowerCase().includes('credit') ||
-                description.toLowerCase().includes('deposit')) {
-              row[4] = amounts[0]; // Credit
-            } else {
-              row[3] = amounts[0]; // Debit
-            }
-          } else if (amounts.length === 2) {
-            // Two amounts - typically transaction amount and balance
-            row[3] = amounts[0]; // Debit (first amount)
-            row[5] = amounts[1]; // Balance (last amount)
-          } else if (amounts.length >= 3) {
-            // Three or more amounts - debit, credit, balance
-            row[3] = amounts[0]; // Debit
-            row[4] = amounts[1]; // Credit
-            row[5] = amounts[amounts.length - 1]; // Balance (last amount)
-          }
-          
-          // Only add if we have essential data
-          if (row[0] && row[2] && (row[3] || row[4])) {
-            rows.push(row);
-            console.log('Added transaction row:', row);
-          }
-        }
-      } else {
-        // We have multiple parts, try to map them to columns
-        const row = ['', '', '', '', '', ''];
-        row[0] = transactionDate; // Tran Date
-        
-        // If we have enough parts, try to identify structure
-        if (parts.length >= 3) {
-          // Typically: [ChqNo/blank] [Description] [Amount(s)]
-          let partIndex = 0;
-          
-          // Check if first part looks like a cheque number or reference
-          if (parts[0].match(/^\d+$/) && parts[0].length <= 10) {
-            row[1] = parts[0]; // Chq No
-            partIndex = 1;
-          }
-          
-          // Find amounts in the parts
-          const amounts = [];
-          const descriptionParts = [];
-          
-          for (let i = partIndex; i < parts.length; i++) {
-            if (parts[i].match(/^\d{1,3}(?:,\d{3})*(?:\.\d{2})?$/)) {
-              amounts.push(parts[i]);
-            } else {
-              descriptionParts.push(parts[i]);
-            }
-          }
-          
-          // Join description parts
-          row[2] = descriptionParts.join(' '); // Particulars
-          
-          // Assign amounts
-          if (amounts.length === 1) {
-            row[3] = amounts[0]; // Debit
-          } else if (amounts.length === 2) {
-            row[3] = amounts[0]; // Debit
-            row[5] = amounts[1]; // Balance
-          } else if (amounts.length >= 3) {
-            row[3] = amounts[0]; // Debit
-            row[4] = amounts[1]; // Credit
-            row[5] = amounts[amounts.length - 1]; // Balance
-          }
-          
-          // Only add if we have essential data
-          if (row[0] && row[2] && (row[3] || row[4])) {
-            rows.push(row);
-            console.log('Added transaction row:', row);
-          }
-        }
-      }
-    });
-    
-    console.log('Final extracted transactions:', rows);
-    
-    return {
-      header: extractHeaderInfo(text),
-      columns: ['Tran Date', 'Chq No', 'Particulars', 'Debit', 'Credit', 'Balance'],
-      rows: rows,
-      headerText: text
-    };
+  // OCR mode from the inspector options; null (after a toast) when the page range is malformed
+  const ocrOptions = (): { ocrMode: OcrMode; ocrPageNumbers: number[] } | null => {
+    try {
+      const ocrPageNumbers = parsePageRange(ocrPageRange);
+      return { ocrMode: forceOCR ? 'force' : ocrPageNumbers.length > 0 ? 'pages' : 'auto', ocrPageNumbers };
+    } catch (error) {
+      toast.error('OCR pages: ' + (error as Error).message);
+      return null;
+    }
   };
 
   // Start conversion process
   const startConvert = async (fileItem: UploadedFile, format: string) => {
-    globalColumnTemplate = null;
+    const ocr = ocrOptions();
+    if (!ocr) return;
+    const inspected = inspectState.fileItem?.id === fileItem.id;
+    // A layout drawn in the inspector holds for the file it was drawn on
+    if (!globalColumnTemplate.current?.manual || !inspected) {
+      globalColumnTemplate.current = null;
+    }
     
     const reader = new FileReader();
     reader.onload = async (evt) => {
+      const controller = new AbortController();
+      convertAbort.current = controller;
+      setConversion({ fileId: fileItem.id, status: 'Opening...' });
+
       try {
         const data = evt.target?.result as ArrayBuffer;
-        const loadingTask = window.pdfjsLib.getDocument({ data });
-        const pdfDoc = await loadingTask.promise;
-        
-        const allRows: string[][] = [];
-        let globalHeader: Record<string, string> = {};
+        const pdfDoc = await openDocument(data, fileItem.file.name);
+        // The inspector's template holds for the file open in it; other files
+        // get the saved template matching their layout
+        const template = inspected ? activeTemplate : await matchTemplate(pdfDoc);
+        if (template && !inspected) toast.info(`Using template "${template.name}" for ${fileItem.file.name}`);
         
-        for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
-          console.log(`Processing page ${pageNum} of ${pdfDoc.numPages}`);
-          const page = await pdfDoc.getPage(pageNum);
-          
-          // Get text content with positioning information
-          const textContent = await page.getTextContent({ 
-            normalizeWhitespace: false,
-            disableCombineTextItems: false
-          });
-          
-          let items = textContent.items || [];
-          let result = null;
-          
-          if (items.length === 0) {
-            // Fallback to OCR if no text found
-            const viewport = page.getViewport({ scale: 2 });
-            const canvas = document.createElement('canvas');
-            canvas.width = viewport.width;
-            canvas.height = viewport.height;
-            const ctx = canvas.getContext('2d')!;
-            await page.render({ canvasContext: ctx, viewport }).promise;
-            
-            const dataURL = canvas.toDataURL('image/png');
-            const worker = await window.Tesseract.createWorker();
-            await worker.load();
-            await worker.loadLanguage('eng');
-            await worker.initialize('eng');
-            const { data: { text } } = await worker.recognize(dataURL);
-            await worker.terminate();
-            
-            result = parseStructuredBankStatement(text);
-          } else {
-            // Enhanced structured parsing with positioning
-            result = parseStructuredPDFText(items);
-          }
-          
-          if (result) {
-            if (result.header && Object.keys(result.header).length) {
-              globalHeader = { ...globalHeader, ...result.header };
-            }
-            
-            if (result.rows && result.rows.length) {
-              console.log(`Found ${result.rows.length} transactions on page ${pageNum}`);
-              allRows.push(...result.rows);
-            }
+        // Every page, in page order, parsed together so balances can be
+        // checked across page breaks; image-only pages are OCR'd
+        const { pages, parsed } = await processStatement(pdfDoc, {
+          signal: controller.signal,
+          ...ocr,
+          ocrLanguages,
+          preprocess: true,
+          onProgress: event => setConversion({
+            fileId: fileItem.id,
+            status: event.stage === 'parse'
+              ? 'Parsing...'
+              : `${event.stage === 'ocr' ? 'OCR' : 'Page'} ${event.pageNumber}/${event.pageCount}`
+          }),
+          parse: {
+            ...(template && templateParseOptions(template)),
+            columnTemplate: globalColumnTemplate.current ?? template?.columnTemplate ?? null,
+            mergeParticulars
           }
-        }
-        
-        const columns = globalColumnTemplate ? 
-          globalColumnTemplate.columnNames : 
-          ['Tran Date', 'Chq No', 'Particulars', 'Debit', 'Credit', 'Balance'];
-          
+        });
+        globalColumnTemplate.current = parsed.columnTemplate;
         const workData: ExtractedData = {
-          fileName: fileItem.file.name,
-          header: globalHeader,
-          columns: columns,
-          rows: allRows,
-          format: format
+          ...statementSheet(fileItem.file.name, parsed),
+          fileId: fileItem.id,
+          format: format,
+          pageSources: pageSources(pages),
+          transactions: parsed.transactions,
+          totals: parsed.totals
         };
         
-        console.log(`Total transactions extracted: ${allRows.length}`);
+        console.log(`Total transactions extracted: ${workData.rows.length}`);
         openPreview(workData);
         
       } catch (error) {
+        if (isAbortError(error)) {
+          toast.info(`Conversion of ${fileItem.file.name} cancelled`);
+          return;
+        }
+        if (isPasswordSkipped(error)) {
+          toast.error(`${fileItem.file.name} is password protected and was not converted`);
+          return;
+        }
         console.error('Conversion error:', error);
         toast.error('Error processing PDF: ' + (error as Error).message);
+      } finally {
+        convertAbort.current = null;
+        setConversion(null);
       }
     };
     
     reader.readAsArrayBuffer(fileItem.file);
   };
 
-  // Enhanced structured PDF text parsing with positioning
-  const parseStructuredPDFText = (items: any[]) => {
-    console.log('Parsing structured PDF text with positioning');
-    
-    // Sort items by Y position (top to bottom) and then by X position (left to right)
-    const sortedItems = items
-      .filter((item: any) => item.str && item.str.trim())
-      .sort((a: any, b: any) => {
-        const yDiff = Math.abs(a.transform[5] - b.transform[5]);
-        if (yDiff < 2) { // Same line (within 2 points)
-          return a.transform[4] - b.transform[4]; // Sort by X position
-        }
-        return b.transform[5] - a.transform[5]; // Sort by Y position (top to bottom)
-      });
-
-    // Group items by lines (Y position)
-    const lines: any[][] = [];
-    let currentLine: any[] = [];
-    let lastY = -1;
-    
-    sortedItems.forEach((item: any) => {
-      const itemY = item.transform[5];
-      
-      if (lastY === -1 || Math.abs(itemY - lastY) < 2) {
-        // Same line
-        currentLine.push(item);
-      } else {
-        // New line
-        if (currentLine.length > 0) {
-          lines.push([...currentLine]);
-        }
-        currentLine = [item];
-      }
-      lastY = itemY;
-    });
-    
-    // Add the last line
-    if (currentLine.length > 0) {
-      lines.push(currentLine);
-    }
-
-    console.log(`Grouped into ${lines.length} lines`);
-
-    // Convert lines to text and parse transactions
-    const textLines = lines.map(line => 
-      line.map(item => item.str).join(' ').trim()
-    ).filter(line => line.length > 5);
-
-    // Extract header info from first few lines
-    const headerText = textLines.slice(0, 10).join(' ');
-    const header = extractHeaderInfo(headerText);
-
-    // Parse transactions from structured lines
-    return parseStructuredBankStatement(textLines);
-  };
-
-  // Enhanced bank statement parsing for structured data
-  const parseStructuredBankStatement = (input: string | string[]) => {
-    const lines = typeof input === 'string' ? input.split(/\r?\n/) : input;
-    const cleanLines = lines
-      .map(line => typeof line === 'string' ? line.trim() : String(line).trim())
-      .filter(line => line && line.length > 5);
-    
-    console.log('Processing', cleanLines.length, 'lines for transactions');
-    
-    const rows: string[][] = [];
-    const datePattern = /^(\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4})/;
-    
-    // Find all transaction lines (lines starting with dates)
-    cleanLines.forEach((line, index) => {
-      const dateMatch = line.match(datePattern);
-      if (!dateMatch) return;
-      
-      const transactionDate = dateMatch[1];
-      console.log('Found transaction line:', line);
-      
-      // Parse this transaction line
-      const parsedRow = parseTransactionLine(line, transactionDate);
-      if (parsedRow && parsedRow.length >= 6) {
-        rows.push(parsedRow);
-        console.log('Added transaction:', parsedRow);
-      }
-    });
-    
-    console.log(`Extracted ${rows.length} individual transactions`);
-    
-    const headerText = typeof input === 'string' ? input : input.join(' ');
-    
-    return {
-      header: extractHeaderInfo(headerText),
-      columns: ['Tran Date', 'Chq No', 'Particulars', 'Debit', 'Credit', 'Balance'],
-      rows: rows
-    };
-  };
-
-  // Parse individual transaction line
-  const parseTransactionLine = (line: string, date: string): string[] | null => {
-    // Remove the date from the beginning
-    const withoutDate = line.replace(/^\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4}\s*/, '').trim();
-    
-    // Find all amounts in the line
-    const amountMatches = withoutDate.match(/\b\d{1,3}(?:,\d{3})*(?:\.\d{2})?\b/g);
-    const amounts: string[] = amountMatches || [];
-    
-    if (amounts.length === 0) return null;
-    
-    // Build description by removing amounts
-    let description = withoutDate;
-    amounts.forEach(amount => {
-      description = description.replace(new RegExp(`\\b${amount.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`), '');
-    });
-    description = description.replace(/\s+/g, ' ').trim();
-    
-    // Create row structure
-    const row = ['', '', '', '', '', ''];
-    row[0] = date; // Tran Date
-    row[1] = ''; // Chq No (extract if pattern found)
-    row[2] = description; // Particulars
-    
-    // Try to extract cheque number from description
-    const chqMatch = description.match(/\b(\d{6,})\b/);
-    if (chqMatch && chqMatch[1] && !amounts.includes(chqMatch[1])) {
-      row[1] = chqMatch[1];
-      row[2] = description.replace(chqMatch[1], '').trim();
-    }
-    
-    // Assign amounts based on count and context
-    if (amounts.length === 1) {
-      // Single amount - determine if debit or credit based on context
-      if (description.toLowerCase().includes('salary') || 
-          description.toLowerCase().includes('credit') ||
-          description.toLowerCase().includes('deposit') ||
-          description.toLowerCase().includes('interest')) {
-        row[4] = amounts[0]; // Credit
-      } else {
-        row[3] = amounts[0]; // Debit
-      }
-    } else if (amounts.length === 2) {
-      // Two amounts - transaction amount and balance
-      row[3] = amounts[0]; // Debit
-      row[5] = amounts[1]; // Balance
-    } else if (amounts.length === 3) {
-      // Three amounts - debit, credit, balance
-      row[3] = amounts[0]; // Debit
-      row[4] = amounts[1]; // Credit
-      row[5] = amounts[2]; // Balance
-    } else if (amounts.length > 3) {
-      // More than 3 amounts - take first as debit, last as balance
-      row[3] = amounts[0]; // Debit
-      row[5] = amounts[amounts.length - 1]; // Balance
-    }
-    
-    return row;
-  };
-
   // Open inspector
-  const openInspect = (item: UploadedFile) => {
+  const openInspect = (item: UploadedFile, pageNum = 1) => {
+    setSourceHighlight(null);
     const reader = new FileReader();
     reader.onload = async (evt) => {
       const data = evt.target?.result as ArrayBuffer;
-      const loadingTask = window.pdfjsLib.getDocument({ data });
-      const pdfDoc = await loadingTask.promise;
+      let pdfDoc;
+      try {
+        pdfDoc = await openDocument(data, item.file.name);
+      } catch (error) {
+        toast.error(isPasswordSkipped(error)
+          ? `${item.file.name} is password protected`
+          : 'Error opening PDF: ' + (error as Error).message);
+        return;
+      }
       
       setInspectState(prev => ({
         ...prev,
         fileItem: item,
         pdfDoc: pdfDoc,
-        pageNum: 1
+        pageNum,
+        lastExtract: null
       }));
+      globalColumnTemplate.current = null;
+      layoutPage.current = null;
+      setTableLayout(emptyTableLayout());
+      setLayoutMode('view');
+      setTablePreview('');
+      setActiveTemplate(null);
       
       setShowInspector(true);
-      await renderPage(1, pdfDoc);
+      await renderPage(pageNum, pdfDoc);
+
+      const template = await matchTemplate(pdfDoc);
+      if (template) {
+        applyTemplate(template);
+        toast.info(`Using template "${template.name}"`);
+      }
     };
     reader.readAsArrayBuffer(item.file);
   };
 
   // Render PDF page
-  const renderPage = async (pageNum?: number, pdfDoc?: any) => {
+  const renderPage = async (pageNum?: number, pdfDoc?: PdfDocument) => {
     const doc = pdfDoc || inspectState.pdfDoc;
     const currentPage = pageNum || inspectState.pageNum;
     
@@ -575,6 +369,7 @@ const PdfConverter = () => {
     canvas.height = Math.floor(viewport.height);
     
     await page.render({ canvasContext: ctx, viewport }).promise;
+    setRenderedPage({ width: canvas.width, height: canvas.height, scale: viewport.scale });
     
     setInspectState(prev => ({
       ...prev,
@@ -596,54 +391,344 @@ const PdfConverter = () => {
     await renderPage();
   };
 
+  const goToPage = async (pageNum: number) => {
+    setInspectState(prev => ({ ...prev, pageNum }));
+    await renderPage(pageNum);
+    showLayoutOn(pageNum);
+  };
+
   const prevPage = async () => {
     if (!inspectState.pdfDoc || inspectState.pageNum <= 1) return;
-    const newPage = inspectState.pageNum - 1;
-    setInspectState(prev => ({ ...prev, pageNum: newPage }));
-    await renderPage(newPage);
+    await goToPage(inspectState.pageNum - 1);
   };
 
   const nextPage = async () => {
     if (!inspectState.pdfDoc || inspectState.pageNum >= inspectState.pdfDoc.numPages) return;
-    const newPage = inspectState.pageNum + 1;
-    setInspectState(prev => ({ ...prev, pageNum: newPage }));
-    await renderPage(newPage);
+    await goToPage(inspectState.pageNum + 1);
+  };
+
+  // The drawn layout applies to every page, so preview it on each one visited
+  const showLayoutOn = (pageNum: number) => {
+    const template = layoutToTemplate(tableLayout);
+    if (template) previewLayout(template, pageNum);
   };
 
   // OCR button handler
   const handleOCR = async () => {
     setDetectedHeader('Running OCR on page...');
     const txt = await runOCROnCanvas();
-    const hdr = extractHeaderInfo(txt);
+    const hdr = headerToRecord(extractStatementHeader(txt));
     setDetectedHeader(
       Object.keys(hdr).length ? JSON.stringify(hdr) : 'No header fields detected by OCR on page'
     );
   };
 
-  // Extract table button handler
+  // Run the full pipeline on some pages of the inspected document. A layout
+  // found here is kept for pages without their own header row.
+  const extractInspectedPages = async (pageNumbers: number[]): Promise<ExtractedData | null> => {
+    const { pdfDoc, fileItem } = inspectState;
+    const ocr = ocrOptions();
+    if (!pdfDoc || !fileItem || !ocr) return null;
+
+    const { pages, parsed } = await processStatement(pdfDoc, {
+      ...ocr,
+      pageNumbers,
+      ocrLanguages,
+      preprocess: true,
+      parse: {
+        ...(activeTemplate && templateParseOptions(activeTemplate)),
+        columnTemplate: globalColumnTemplate.current,
+        mergeParticulars
+      }
+    });
+    globalColumnTemplate.current = parsed.columnTemplate || globalColumnTemplate.current;
+    const sheet = statementSheet(fileItem.file.name, parsed);
+    return {
+      ...sheet,
+      header: { ...sheet.header, Pages: formatPageList(pageNumbers) },
+      fileId: fileItem.id,
+      format: 'xlsx',
+      pageSources: pageSources(pages),
+      transactions: parsed.transactions,
+      totals: parsed.totals
+    };
+  };
+
+  // Extract table button handler: parse the page on screen
   const handleExtractTable = async () => {
     setDetectedHeader('Extracting table...');
-    // Simplified extraction for demo
-    const result = {
-      header: { Account: 'Demo Account' },
-      columns: ['Tran Date', 'Chq No', 'Particulars', 'Debit', 'Credit', 'Balance'],
-      rows: [['01/01/2024', '', 'Sample Transaction', '1000.00', '', '5000.00']]
-    };
-    
-    setInspectState(prev => ({ ...prev, lastExtract: { ...result, fileName: '', format: 'xlsx' } }));
-    setDetectedHeader(JSON.stringify(result.header, null, 2));
-    setTablePreview('Sample table extracted');
+    setTablePreview(`Extracting page ${inspectState.pageNum}...`);
+    try {
+      const extract = await extractInspectedPages([inspectState.pageNum]);
+      if (!extract) return;
+      setInspectState(prev => ({ ...prev, lastExtract: extract }));
+      const { Pages, ...header } = extract.header;
+      setDetectedHeader(Object.keys(header).length ? JSON.stringify(header, null, 2) : 'No header fields on this page');
+      setTablePreview(extract.rows.length > 0 ? '' : `No transactions found on page ${inspectState.pageNum}`);
+    } catch (error) {
+      console.error('Extraction error:', error);
+      setDetectedHeader('Extraction failed');
+      setTablePreview('');
+      toast.error('Error extracting table: ' + (error as Error).message);
+    }
+  };
+
+  // Re-read the inspected page with the drawn layout as the user edits it
+  const previewLayout = async (template: ColumnTemplate, pageNum = inspectState.pageNum) => {
+    const { pdfDoc, fileItem } = inspectState;
+    const ocr = ocrOptions();
+    if (!pdfDoc || !fileItem || !ocr) return;
+    const run = ++layoutPreviewRun.current;
+
+    try {
+      let cached = layoutPage.current;
+      if (cached?.pdfDoc !== pdfDoc || cached.page.pageNumber !== pageNum) {
+        setTablePreview(`Reading page ${pageNum}...`);
+        const [page] = await extractPages(pdfDoc, { ...ocr, pageNumbers: [pageNum], ocrLanguages, preprocess: true });
+        cached = layoutPage.current = { pdfDoc, page };
+      }
+      const { page } = cached;
+      const parsed = await parsePagesInWorker([pageInput(page)], {
+        ...(activeTemplate && templateParseOptions(activeTemplate)),
+        columnTemplate: template,
+        mergeParticulars,
+        pageMethods: [page.method],
+        pageNumbers: [page.pageNumber]
+      });
+      // A later edit has already started its own preview
+      if (run !== layoutPreviewRun.current) return;
+
+      const sheet = statementSheet(fileItem.file.name, parsed);
+      setInspectState(prev => ({
+        ...prev,
+        lastExtract: {
+          ...sheet,
+          header: { ...sheet.header, Pages: `${page.pageNumber}` },
+          fileId: fileItem.id,
+          format: 'xlsx',
+          pageSources: pageSources([page]),
+          transactions: parsed.transactions,
+          totals: parsed.totals
+        }
+      }));
+      setTablePreview(parsed.transactions.length > 0 ? '' : 'No transactions inside the drawn table');
+    } catch (error) {
+      console.error('Layout preview error:', error);
+      if (run === layoutPreviewRun.current) setTablePreview('Preview failed: ' + (error as Error).message);
+    }
+  };
+
+  // A complete drawn layout becomes the document's column template straight away
+  const updateLayout = (layout: TableLayout) => {
+    setTableLayout(layout);
+    const template = layoutToTemplate(layout);
+    if (template) globalColumnTemplate.current = template;
+    else if (globalColumnTemplate.current?.manual) globalColumnTemplate.current = null;
+    if (template) previewLayout(template);
+    else if (layout.region) setTablePreview('Name a date column and an amount or balance column to preview');
+  };
+
+  const clearLayout = () => {
+    setTableLayout(emptyTableLayout());
+    setLayoutMode('view');
+    globalColumnTemplate.current = null;
+    setTablePreview('');
+  };
+
+  const storeTemplates = (next: ExtractionTemplate[]) => {
+    setTemplates(next);
+    saveExtractionTemplates(next);
+  };
+
+  // The saved template for the document's bank layout, if there is one
+  const matchTemplate = async (pdfDoc: PdfDocument): Promise<ExtractionTemplate | null> => {
+    if (templates.length === 0) return null;
+    try {
+      return findMatchingTemplate(await fingerprintDocument(pdfDoc), templates);
+    } catch (error) {
+      console.error('Fingerprint error:', error);
+      return null;
+    }
+  };
+
+  // Read the inspected document with a template; its table shows on the canvas
+  const applyTemplate = (template: ExtractionTemplate) => {
+    setActiveTemplate(template);
+    globalColumnTemplate.current = template.columnTemplate;
+    setTableLayout(templateToLayout(template.columnTemplate) ?? emptyTableLayout());
+    setLayoutMode('view');
+    setTablePreview('');
+    setTemplateName(template.name);
+    setTemplateDateFormats(template.dateFormats.join(', '));
+    setTemplateAmountFormat(`${template.amountFormat.grouping}|${template.amountFormat.decimalSeparator}`);
+  };
+
+  // Save how the inspected document is read, for every statement with its
+  // layout. Saving under an existing name updates that template.
+  const handleSaveTemplate = async () => {
+    const { pdfDoc } = inspectState;
+    const ocr = ocrOptions();
+    if (!pdfDoc || !ocr) return;
+    const name = templateName.trim();
+    if (!name) {
+      toast.error('Enter a template name');
+      return;
+    }
+    const dateFormats = templateDateFormats.split(',').map(format => format.trim().toUpperCase()).filter(Boolean);
+    const badFormat = invalidDateFormat(dateFormats);
+    if (badFormat) {
+      toast.error(`Date format "${badFormat}" needs day, month and year, e.g. DD/MM/YYYY`);
+      return;
+    }
+    const [grouping, decimalSeparator] = templateAmountFormat.split('|');
+
+    try {
+      // Page 1 gives the profile, the layout when none was drawn, and where the header fields sit
+      const [page] = await extractPages(pdfDoc, { ...ocr, pageNumbers: [1], ocrLanguages, preprocess: true });
+      const parsed = await parsePagesInWorker([pageInput(page)], {
+        ...(activeTemplate && templateParseOptions(activeTemplate)),
+        columnTemplate: globalColumnTemplate.current,
+        mergeParticulars,
+        pageMethods: [page.method],
+        pageNumbers: [page.pageNumber]
+      });
+      const template: ExtractionTemplate = {
+        id: templates.find(saved => saved.name === name)?.id ?? crypto.randomUUID(),
+        name,
+        fingerprint: await fingerprintDocument(pdfDoc),
+        columnTemplate: globalColumnTemplate.current ?? parsed.columnTemplate,
+        // A profile compiled from a template isn't registered; only built-in ones are kept
+        profileId: parsed.profile && getBankProfile(parsed.profile.id) ? parsed.profile.id : null,
+        dateFormats,
+        amountFormat: { grouping, decimalSeparator } as AmountFormat,
+        headerLocations: page.items ? locateHeaderFields(groupTextItemsIntoLines(page.items), parsed.header) : {},
+        updatedAt: new Date().toISOString()
+      };
+
+      storeTemplates(mergeExtractionTemplates(templates, [template]));
+      setActiveTemplate(template);
+      toast.success(`Template "${name}" saved`);
+    } catch (error) {
+      console.error('Template error:', error);
+      toast.error('Error saving template: ' + (error as Error).message);
+    }
+  };
+
+  const deleteTemplate = (template: ExtractionTemplate) => {
+    storeTemplates(templates.filter(saved => saved.id !== template.id));
+    if (activeTemplate?.id === template.id) setActiveTemplate(null);
+  };
+
+  const handleExportTemplates = () => {
+    const blob = new Blob([exportExtractionTemplates(templates)], { type: 'application/json' });
+    downloadBlob(blob, 'extraction-templates.json');
+  };
+
+  const handleImportTemplates = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseExtractionTemplates(await file.text());
+      storeTemplates(mergeExtractionTemplates(templates, imported));
+      toast.success(`Imported ${imported.length} template(s)`);
+    } catch (error) {
+      toast.error('Error importing templates: ' + (error as Error).message);
+    }
   };
 
-  // Export from inspector
+  // Export from inspector: the pages in the export range, or the last extracted page
   const handleExportFromInspector = async () => {
-    if (!inspectState.lastExtract) {
-      toast.error('No table found to export');
+    let pageNumbers: number[];
+    try {
+      pageNumbers = parsePageRange(exportPageRange, inspectState.pdfDoc?.numPages);
+    } catch (error) {
+      toast.error('Export pages: ' + (error as Error).message);
       return;
     }
-    
-    const workData = inspectState.lastExtract;
-    buildAndDownload(workData);
+
+    // Held like the preview's download while low-confidence rows await review
+    const download = (extract: ExtractedData, failure: string) => whenReviewed(extract, async () => {
+      try {
+        await buildAndDownload(extract);
+      } catch (error) {
+        console.error('Export error:', error);
+        toast.error(`${failure}: ${(error as Error).message}`);
+      }
+    });
+
+    if (pageNumbers.length === 0) {
+      if (!inspectState.lastExtract) {
+        toast.error('Extract a table or enter pages to export');
+        return;
+      }
+      download(inspectState.lastExtract, 'Error exporting the table');
+      return;
+    }
+
+    setTablePreview(`Extracting pages ${formatPageList(pageNumbers)}...`);
+    let extract: ExtractedData | null;
+    try {
+      extract = await extractInspectedPages(pageNumbers);
+    } catch (error) {
+      console.error('Export error:', error);
+      setTablePreview('');
+      toast.error('Error exporting pages: ' + (error as Error).message);
+      return;
+    }
+    if (!extract) return;
+    setInspectState(prev => ({ ...prev, lastExtract: extract }));
+    setTablePreview(extract.rows.length > 0 ? '' : `No transactions found on pages ${formatPageList(pageNumbers)}`);
+    download(extract, 'Error exporting pages');
+  };
+
+  // Corrections from the preview grid; the sheet rows are what gets downloaded
+  const updatePreviewTransactions = (edited: ExtractedTransaction[]) => {
+    setCurrentPreviewData(prev => {
+      if (!prev) return prev;
+      const { transactions } = revalidateTransactions(edited, prev.totals);
+      return { ...prev, transactions, rows: transactionsToRows(transactions) };
+    });
+  };
+
+  // Preview rows are the ones under review when the inspector shows their file;
+  // otherwise it's the inspector's own last extract
+  const reviewingPreview = showPreview && !!currentPreviewData && currentPreviewData.fileId === inspectState.fileItem?.id;
+  const reviewedRows = (reviewingPreview ? currentPreviewData?.transactions : inspectState.lastExtract?.transactions) || [];
+
+  const rowBoxes = (transaction: ExtractedTransaction): TableRegion[] =>
+    Object.values(transaction.fieldBounds || {}).filter(Boolean);
+
+  // Open the inspector where a preview row, or one of its cells, was read
+  const showSource = async (index: number, column?: EditableColumn) => {
+    const data = currentPreviewData;
+    const transaction = data?.transactions[index];
+    if (!data || !transaction) return;
+    if (!transaction.page) {
+      toast.info(`Row ${index + 1} was added by hand and has no source in the PDF`);
+      return;
+    }
+
+    const cell = column && cellBounds(transaction, column);
+    const boxes = cell ? [cell] : rowBoxes(transaction);
+    if (boxes.length === 0) toast.info(`No position was recorded for row ${index + 1}; showing page ${transaction.page}`);
+
+    const fileItem = uploadedFiles.find(file => file.id === data.fileId);
+    if (!fileItem) return;
+    if (inspectState.fileItem?.id === fileItem.id && inspectState.pdfDoc) {
+      setShowInspector(true);
+      if (inspectState.pageNum !== transaction.page) await goToPage(transaction.page);
+    } else {
+      openInspect(fileItem, transaction.page);
+    }
+    setSourceHighlight({ page: transaction.page, boxes, row: index });
+  };
+
+  // A click on the inspected page picks the row read from there
+  const selectRowAt = (x: number, y: number) => {
+    const page = inspectState.pageNum;
+    const index = findTransactionAt(reviewedRows, page, x, y);
+    setSourceHighlight(index === -1 ? null : { page, boxes: rowBoxes(reviewedRows[index]), row: index });
   };
 
   // Open preview modal
@@ -652,51 +737,40 @@ const PdfConverter = () => {
     setShowPreview(true);
   };
 
-  // Download function
-  const buildAndDownload = (workData: ExtractedData) => {
-    const { fileName, header, columns, rows, format } = workData;
-    const output: any[] = [];
-    
-    output.push(['Source PDF', fileName]);
-    if (header && Object.keys(header).length) {
-      Object.entries(header).forEach(([key, value]) => {
-        if (value) output.push([key, value]);
-      });
-    }
-    output.push([]);
-    
-    output.push(columns);
-    rows.forEach(row => output.push(row));
-    
-    const ws = window.XLSX.utils.aoa_to_sheet(output);
-    const wb = window.XLSX.utils.book_new();
-    window.XLSX.utils.book_append_sheet(wb, ws, 'Transactions');
-    
-    const outputFormat = format || 'xlsx';
-    const outputName = fileName.replace(/\.pdf$/i, '') + (outputFormat === 'csv' ? '.csv' : '.xlsx');
-    
-    if (outputFormat === 'csv') {
-      const csv = window.XLSX.utils.sheet_to_csv(ws);
-      downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), outputName);
-    } else {
-      const wbout = window.XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
-      downloadBlob(new Blob([wbout], { type: 'application/octet-stream' }), outputName);
+  // Run a download once the low-confidence rows are reviewed, or when the
+  // user chooses to go ahead without
+  const whenReviewed = (workData: ExtractedData, download: () => void) => {
+    const unreviewed = reviewQueue(workData.transactions, reviewThreshold).length;
+    if (unreviewed === 0) {
+      download();
+      return;
     }
-    
-    toast.success('Excel file downloaded successfully!');
+    toast.warning(`${unreviewed} low-confidence ${unreviewed === 1 ? 'row has' : 'rows have'} not been reviewed`, {
+      action: { label: 'Download anyway', onClick: download }
+    });
   };
 
-  const downloadBlob = (blob: Blob, filename: string) => {
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    setTimeout(() => {
-      URL.revokeObjectURL(url);
-      a.remove();
-    }, 60000);
+  // Download from the preview
+  const confirmDownload = () => {
+    if (!currentPreviewData) return;
+    const workData = currentPreviewData;
+    whenReviewed(workData, async () => {
+      // The preview stays open when the file can't be built, so nothing is lost
+      try {
+        await buildAndDownload(workData);
+        setShowPreview(false);
+      } catch (error) {
+        console.error('Download error:', error);
+        toast.error('Error building the download: ' + (error as Error).message);
+      }
+    });
+  };
+
+  // Download function
+  const buildAndDownload = async (workData: ExtractedData) => {
+    const { blob, fileName } = await buildStatementFile(workData, workData.format === 'csv' ? 'csv' : 'xlsx');
+    downloadBlob(blob, fileName);
+    toast.success('Excel file downloaded successfully!');
   };
 
   return (
@@ -768,12 +842,24 @@ const PdfConverter = () => {
                       </SelectContent>
                     </Select>
                     
-                    <Button
-                      onClick={() => startConvert(fileItem, 'xlsx')}
-                      className="bg-primary text-primary-foreground hover:bg-primary/90"
-                    >
-                      Convert
-                    </Button>
+                    {conversion?.fileId === fileItem.id ? (
+                      <Button
+                        variant="outline"
+                        onClick={() => convertAbort.current?.abort()}
+                        title="Cancel conversion"
+                      >
+                        {conversion.status}
+                        <X className="h-4 w-4 ml-1" />
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={() => startConvert(fileItem, 'xlsx')}
+                        disabled={conversion !== null}
+                        className="bg-primary text-primary-foreground hover:bg-primary/90"
+                      >
+                        Convert
+                      </Button>
+                    )}
                     
                     <Button
                       variant="outline"
@@ -808,6 +894,11 @@ const PdfConverter = () => {
                   <p className="text-sm text-muted-foreground">
                     {currentPreviewData.rows.length} transactions extracted from {currentPreviewData.fileName}
                   </p>
+                  {currentPreviewData.pageSources && (
+                    <p className="text-xs text-muted-foreground">
+                      {describePageSources(currentPreviewData.pageSources)}
+                    </p>
+                  )}
                 </div>
                 <Button
                   variant="ghost"
@@ -819,41 +910,19 @@ const PdfConverter = () => {
               </div>
               
               <div className="p-6 max-h-[60vh] overflow-auto">
-                {currentPreviewData.rows.length > 0 ? (
-                  <div className="overflow-x-auto">
-                    <table className="w-full border-collapse border border-border rounded-lg">
-                      <thead>
-                        <tr className="bg-muted">
-                          {currentPreviewData.columns.map((col, index) => (
-                            <th key={index} className="border border-border p-3 text-left font-semibold">
-                              {col}
-                            </th>
-                          ))}
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {currentPreviewData.rows.slice(0, 50).map((row, index) => (
-                          <tr key={index} className="hover:bg-muted/50">
-                            {row.map((cell, cellIndex) => (
-                              <td key={cellIndex} className="border border-border p-3 text-sm">
-                                {cell || ''}
-                              </td>
-                            ))}
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                    {currentPreviewData.rows.length > 50 && (
-                      <p className="text-center text-muted-foreground mt-4">
-                        ... and {currentPreviewData.rows.length - 50} more transactions
-                      </p>
-                    )}
-                  </div>
-                ) : (
-                  <div className="text-center py-8 text-muted-foreground">
-                    No transactions found in the PDF
+                {currentPreviewData.rows.length === 0 && (
+                  <div className="text-center py-4 text-muted-foreground">
+                    No transactions found in the PDF. Rows can be added by hand.
                   </div>
                 )}
+                <TransactionGrid
+                  key={currentPreviewData.fileName}
+                  transactions={currentPreviewData.transactions}
+                  confidenceThreshold={reviewThreshold}
+                  onChange={updatePreviewTransactions}
+                  onShowSource={showSource}
+                  focusRow={reviewingPreview ? sourceHighlight?.row : undefined}
+                />
               </div>
               
               <div className="flex justify-end space-x-3 p-6 border-t">
@@ -862,12 +931,7 @@ const PdfConverter = () => {
                 </Button>
                 <Button 
                   className="bg-green-600 text-white hover:bg-green-700"
-                  onClick={() => {
-                    if (currentPreviewData) {
-                      buildAndDownload(currentPreviewData);
-                      setShowPreview(false);
-                    }
-                  }}
+                  onClick={() => confirmDownload()}
                 >
                   <Download className="mr-2 h-4 w-4" />
                   Confirm & Download
@@ -885,11 +949,27 @@ const PdfConverter = () => {
             <CardContent className="p-0 h-full">
               <div className="flex h-full">
                 {/* Left side - PDF viewer */}
-                <div className="flex-1 flex flex-col items-center justify-center bg-muted/20 relative">
-                  <canvas 
-                    ref={canvasRef}
-                    className="max-w-full max-h-full bg-white shadow-lg"
-                  />
+                <div className="flex-1 bg-muted/20 relative">
+                  <div className="absolute inset-0 overflow-auto flex">
+                    <div className="relative m-auto shrink-0">
+                      <canvas 
+                        ref={canvasRef}
+                        className="block bg-white shadow-lg"
+                      />
+                      {renderedPage && (
+                        <TableLayoutOverlay
+                          width={renderedPage.width}
+                          height={renderedPage.height}
+                          scale={renderedPage.scale}
+                          layout={tableLayout}
+                          mode={layoutMode}
+                          onChange={updateLayout}
+                          highlights={sourceHighlight?.page === inspectState.pageNum ? sourceHighlight.boxes : []}
+                          onPointClick={selectRowAt}
+                        />
+                      )}
+                    </div>
+                  </div>
                   <div className="absolute left-4 top-4">
                     <div className="bg-white px-3 py-2 rounded-lg border border-border text-sm">
                       Page {inspectState.pageNum} / {inspectState.pdfDoc?.numPages || 0}
@@ -898,7 +978,7 @@ const PdfConverter = () => {
                 </div>
                 
                 {/* Right side - Controls */}
-                <div className="w-80 border-l border-border p-4 flex flex-col gap-4">
+                <div className="w-80 border-l border-border p-4 flex flex-col gap-4 overflow-y-auto">
                   <div className="flex justify-between items-center">
                     <div>
                       <h3 className="font-semibold">Inspector</h3>
@@ -952,9 +1032,166 @@ const PdfConverter = () => {
                   <div>
                     <h4 className="font-semibold text-sm">Table Preview</h4>
                     <div className="border border-border rounded-lg p-2 bg-card mt-1">
-                      <div className="text-xs text-muted-foreground">
-                        {tablePreview}
+                      {tablePreview || !inspectState.lastExtract ? (
+                        <div className="text-xs text-muted-foreground">
+                          {tablePreview || 'No table preview yet.'}
+                        </div>
+                      ) : (
+                        <div className="max-h-64 overflow-auto">
+                          <p className="text-xs text-muted-foreground mb-1">
+                            {inspectState.lastExtract.rows.length} transactions
+                            {inspectState.lastExtract.pageSources && ` · ${describePageSources(inspectState.lastExtract.pageSources)}`}
+                          </p>
+                          <table className="w-full border-collapse text-xs">
+                            <thead>
+                              <tr className="bg-muted">
+                                {inspectState.lastExtract.columns.map((col, index) => (
+                                  <th key={index} className="border border-border p-1 text-left font-semibold">
+                                    {col}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {inspectState.lastExtract.rows.map((row, index) => (
+                                <tr
+                                  key={index}
+                                  className={!reviewingPreview && sourceHighlight?.row === index ? 'bg-yellow-100' : 'hover:bg-muted/50'}
+                                >
+                                  {row.map((cell, cellIndex) => (
+                                    <td key={cellIndex} className="border border-border p-1">
+                                      {cellToText(cell)}
+                                    </td>
+                                  ))}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  
+                  {/* Table Layout */}
+                  <div>
+                    <h4 className="font-semibold text-sm">Table Layout</h4>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {layoutMode === 'region'
+                        ? 'Drag a box around the transaction table.'
+                        : layoutMode === 'columns'
+                          ? 'Click to add a column separator, drag to move one, double-click to remove it.'
+                          : 'Draw the table by hand when columns are not detected. It is used for every page.'}
+                    </p>
+                    <div className="flex gap-2 mt-2">
+                      <Button
+                        variant={layoutMode === 'region' ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setLayoutMode(layoutMode === 'region' ? 'view' : 'region')}
+                      >
+                        Draw table
+                      </Button>
+                      <Button
+                        variant={layoutMode === 'columns' ? 'default' : 'outline'}
+                        size="sm"
+                        disabled={!tableLayout.region}
+                        onClick={() => setLayoutMode(layoutMode === 'columns' ? 'view' : 'columns')}
+                      >
+                        Columns
+                      </Button>
+                      <Button variant="outline" size="sm" disabled={!tableLayout.region} onClick={clearLayout}>
+                        Clear
+                      </Button>
+                    </div>
+                    {tableLayout.region && (
+                      <div className="space-y-1 mt-2">
+                        {tableLayout.roles.map((role, index) => (
+                          <label key={index} className="flex items-center gap-2 text-xs">
+                            <span className="w-16">Column {index + 1}</span>
+                            <select
+                              value={role ?? ''}
+                              onChange={(e) => updateLayout(setColumnRole(tableLayout, index, (e.target.value || null) as ColumnRole | null))}
+                              className="flex-1 border border-border rounded px-2 py-1 bg-background"
+                            >
+                              <option value="">Ignore</option>
+                              {Object.entries(COLUMN_ROLE_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                              ))}
+                            </select>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  
+                  {/* Templates */}
+                  <div>
+                    <h4 className="font-semibold text-sm">Templates</h4>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {activeTemplate
+                        ? `Reading with "${activeTemplate.name}".`
+                        : 'Save the table layout and formats to apply them to statements with the same layout.'}
+                    </p>
+                    <div className="space-y-2 mt-2">
+                      <input
+                        type="text"
+                        value={templateName}
+                        onChange={(e) => setTemplateName(e.target.value)}
+                        placeholder="Template name, e.g. SBI savings"
+                        className="w-full border border-border rounded px-2 py-1 text-xs bg-background"
+                      />
+                      <label className="flex items-center gap-2 text-xs">
+                        Dates
+                        <input
+                          type="text"
+                          value={templateDateFormats}
+                          onChange={(e) => setTemplateDateFormats(e.target.value)}
+                          placeholder="bank's own, or e.g. DD/MM/YYYY, DD-MMM-YY"
+                          className="flex-1 border border-border rounded px-2 py-1 bg-background"
+                        />
+                      </label>
+                      <label className="flex items-center gap-2 text-xs">
+                        Amounts
+                        <select
+                          value={templateAmountFormat}
+                          onChange={(e) => setTemplateAmountFormat(e.target.value)}
+                          className="flex-1 border border-border rounded px-2 py-1 bg-background"
+                        >
+                          {AMOUNT_FORMAT_CHOICES.map(choice => (
+                            <option key={choice.value} value={choice.value}>{choice.label}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={handleSaveTemplate}>
+                          Save
+                        </Button>
+                        <Button variant="outline" size="sm" disabled={templates.length === 0} onClick={handleExportTemplates}>
+                          Export
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => templateFileRef.current?.click()}>
+                          Import
+                        </Button>
+                        <input
+                          ref={templateFileRef}
+                          type="file"
+                          accept="application/json,.json"
+                          className="hidden"
+                          onChange={handleImportTemplates}
+                        />
                       </div>
+                      {templates.map(template => (
+                        <div key={template.id} className="flex items-center gap-2 text-xs">
+                          <span className={`flex-1 truncate ${activeTemplate?.id === template.id ? 'font-semibold' : ''}`}>
+                            {template.name}
+                          </span>
+                          <Button variant="ghost" size="sm" onClick={() => applyTemplate(template)}>
+                            Apply
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => deleteTemplate(template)}>
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ))}
                     </div>
                   </div>
                   
@@ -968,7 +1205,30 @@ const PdfConverter = () => {
                           checked={forceOCR}
                           onChange={(e) => setForceOCR(e.target.checked)}
                         />
-                        Force OCR when page has no selectable text
+                        Force OCR on every page, ignoring the text layer
+                      </label>
+                      <label className="flex items-center gap-2 text-xs">
+                        OCR pages
+                        <input
+                          type="text"
+                          value={ocrPageRange}
+                          onChange={(e) => setOcrPageRange(e.target.value)}
+                          disabled={forceOCR}
+                          placeholder="auto, or e.g. 1-3, 7"
+                          className="flex-1 border border-border rounded px-2 py-1 bg-background"
+                        />
+                      </label>
+                      <label className="flex items-center gap-2 text-xs">
+                        OCR language
+                        <select
+                          value={ocrLanguages}
+                          onChange={(e) => setOcrLanguages(e.target.value)}
+                          className="flex-1 border border-border rounded px-2 py-1 bg-background"
+                        >
+                          {ocrLanguageChoices().map(choice => (
+                            <option key={choice.value} value={choice.value}>{choice.label}</option>
+                          ))}
+                        </select>
                       </label>
                       <label className="flex items-center gap-2 text-xs">
                         <input 
@@ -978,6 +1238,16 @@ const PdfConverter = () => {
                         />
                         Merge multi-line particulars
                       </label>
+                      <label className="flex items-center gap-2 text-xs">
+                        Export pages
+                        <input
+                          type="text"
+                          value={exportPageRange}
+                          onChange={(e) => setExportPageRange(e.target.value)}
+                          placeholder="this page, or e.g. 1-5"
+                          className="flex-1 border border-border rounded px-2 py-1 bg-background"
+                        />
+                      </label>
                     </div>
                   </div>
                   
@@ -992,17 +1262,10 @@ const PdfConverter = () => {
           </Card>
         </div>
       )}
+
+      <PdfPasswordDialog {...passwordDialogProps} />
     </div>
   );
 };
 
-// Extend window object for external libraries
-declare global {
-  interface Window {
-    pdfjsLib: any;
-    Tesseract: any;
-    XLSX: any;
-  }
-}
-
 export default PdfConverter;
\ No newline at end of file
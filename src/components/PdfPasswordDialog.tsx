@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Lock, X } from "lucide-react";
+import { passwordCandidates, type PasswordDetails } from "@/lib/pdf";
+import type { PdfPasswordDialogProps } from "@/hooks/use-pdf-password";
+
+const DETAIL_FIELDS: { key: keyof PasswordDetails; label: string; type?: string; placeholder?: string }[] = [
+  { key: 'name', label: 'Account holder name', placeholder: 'As printed on the statement' },
+  { key: 'dob', label: 'Date of birth', type: 'date' },
+  { key: 'pan', label: 'PAN', placeholder: 'ABCDE1234F' },
+  { key: 'mobile', label: 'Registered mobile' },
+  { key: 'accountNumber', label: 'Account number' },
+  { key: 'customerId', label: 'Customer ID' }
+];
+
+const PdfPasswordDialog = ({
+  prompt,
+  rules,
+  details,
+  onRulesChange,
+  onDetailsChange,
+  onSubmit,
+  onTryRules,
+  onSkip
+}: PdfPasswordDialogProps) => {
+  const [password, setPassword] = useState("");
+  const [showRules, setShowRules] = useState(false);
+  const [newTemplate, setNewTemplate] = useState("");
+
+  // Start every prompt with an empty field
+  useEffect(() => {
+    setPassword("");
+  }, [prompt]);
+
+  const ruleCount = passwordCandidates(rules, details).length;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (password) onSubmit(password);
+  };
+
+  const addRule = () => {
+    const template = newTemplate.trim();
+    if (!template) return;
+    onRulesChange([...rules, { id: crypto.randomUUID(), label: template, template, enabled: true }]);
+    setNewTemplate("");
+  };
+
+  return (
+    <Dialog open={prompt !== null} onOpenChange={open => !open && onSkip()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Password required
+          </DialogTitle>
+          <DialogDescription>
+            {prompt?.fileName} is encrypted. Banks usually set this password from your date of birth, PAN or customer ID.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="pdf-password-form" onSubmit={handleSubmit} className="space-y-2">
+          <Label htmlFor="pdf-password">Password</Label>
+          <Input
+            id="pdf-password"
+            type="password"
+            autoFocus
+            value={password}
+            onChange={event => setPassword(event.target.value)}
+          />
+          {prompt?.reason === 'incorrect' && (
+            <p className="text-sm text-destructive">That password did not open the file. Please try again.</p>
+          )}
+        </form>
+
+        <div className="space-y-3">
+          <button
+            type="button"
+            className="text-sm text-primary hover:underline"
+            onClick={() => setShowRules(!showRules)}
+          >
+            {showRules ? 'Hide password rules' : 'Try password rules across this batch'}
+          </button>
+
+          {showRules && (
+            <div className="space-y-4 border border-border rounded-lg p-4">
+              <p className="text-xs text-muted-foreground">
+                Details are only kept until the page is closed. Rules are saved on this device.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                {DETAIL_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`pdf-password-${field.key}`} className="text-xs">{field.label}</Label>
+                    <Input
+                      id={`pdf-password-${field.key}`}
+                      type={field.type || 'text'}
+                      placeholder={field.placeholder}
+                      value={details[field.key] || ''}
+                      onChange={event => onDetailsChange({ ...details, [field.key]: event.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                {rules.map(rule => (
+                  <div key={rule.id} className="flex items-center justify-between gap-2 text-sm">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={event => onRulesChange(rules.map(r =>
+                          r.id === rule.id ? { ...r, enabled: event.target.checked } : r
+                        ))}
+                      />
+                      {rule.label}
+                    </label>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="{NAME4}{dob:DDMMYY}"
+                    value={newTemplate}
+                    onChange={event => setNewTemplate(event.target.value)}
+                  />
+                  <Button variant="outline" onClick={addRule}>Add rule</Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Placeholders: {'{name4}'} {'{NAME4}'} {'{dob:DDMMYYYY}'} {'{pan}'} {'{PAN}'} {'{mobile5}'} {'{acct4}'} {'{customerId}'}
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onSkip}>Skip file</Button>
+          {showRules && (
+            <Button variant="outline" disabled={ruleCount === 0} onClick={onTryRules}>
+              Try {ruleCount} rule{ruleCount === 1 ? '' : 's'}
+            </Button>
+          )}
+          <Button type="submit" form="pdf-password-form" disabled={!password}>
+            Unlock
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PdfPasswordDialog;
@@ -0,0 +1,188 @@
+import { useRef, useState } from "react";
+import {
+  COLUMN_ROLE_LABELS,
+  addColumnSeparator,
+  moveColumnSeparator,
+  removeColumnSeparator,
+  setTableRegion,
+  type TableLayout,
+  type TableRegion
+} from "@/lib/statement";
+
+// view: show the layout, clicks go to onPointClick; region: drag out the
+// table; columns: click to drop a separator, drag one to move it,
+// double-click one to remove it
+export type TableLayoutMode = 'view' | 'region' | 'columns';
+
+interface TableLayoutOverlayProps {
+  // Size of the rendered page in canvas pixels, and pixels per PDF point
+  width: number;
+  height: number;
+  scale: number;
+  layout: TableLayout;
+  mode: TableLayoutMode;
+  onChange: (layout: TableLayout) => void;
+  // Source boxes to outline, e.g. the cells of a row picked in the preview
+  highlights?: TableRegion[];
+  // A click in view mode, in PDF points
+  onPointClick?: (x: number, y: number) => void;
+}
+
+// How close to a separator, in canvas pixels, a press grabs it
+const GRAB_DISTANCE = 6;
+// Smaller drags are treated as stray clicks
+const MIN_REGION_SIZE = 12;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const TableLayoutOverlay = ({ width, height, scale, layout, mode, onChange, highlights = [], onPointClick }: TableLayoutOverlayProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draft, setDraft] = useState<{ start: Point; end: Point } | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  // Pointer position in canvas pixels; the canvas may be displayed scaled
+  const toCanvas = (event: React.PointerEvent | React.MouseEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * width / rect.width,
+      y: (event.clientY - rect.top) * height / rect.height
+    };
+  };
+
+  // PDF points have their origin at the bottom left
+  const toPixelY = (y: number) => height - y * scale;
+
+  const separatorAt = (x: number) =>
+    layout.separators.findIndex(separator => Math.abs(separator * scale - x) <= GRAB_DISTANCE);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toCanvas(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    if (mode === 'view') {
+      onPointClick?.(point.x / scale, (height - point.y) / scale);
+    } else if (mode === 'region') {
+      setDraft({ start: point, end: point });
+    } else if (mode === 'columns') {
+      const index = separatorAt(point.x);
+      if (index >= 0) setDragging(index);
+      else onChange(addColumnSeparator(layout, point.x / scale));
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (draft) {
+      setDraft({ ...draft, end: toCanvas(event) });
+    } else if (dragging !== null) {
+      onChange(moveColumnSeparator(layout, dragging, toCanvas(event).x / scale));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (draft) {
+      const { start, end } = draft;
+      if (Math.abs(end.x - start.x) >= MIN_REGION_SIZE && Math.abs(end.y - start.y) >= MIN_REGION_SIZE) {
+        onChange(setTableRegion({
+          x0: Math.min(start.x, end.x) / scale,
+          x1: Math.max(start.x, end.x) / scale,
+          y0: (height - Math.max(start.y, end.y)) / scale,
+          y1: (height - Math.min(start.y, end.y)) / scale
+        }));
+      }
+      setDraft(null);
+    }
+    setDragging(null);
+  };
+
+  const handleDoubleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (mode !== 'columns') return;
+    const index = separatorAt(toCanvas(event).x);
+    if (index >= 0) onChange(removeColumnSeparator(layout, index));
+  };
+
+  const { region } = layout;
+  const edges = region ? [region.x0, ...layout.separators, region.x1] : [];
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className="absolute inset-0 w-full h-full"
+      style={{
+        pointerEvents: mode === 'view' && !onPointClick ? 'none' : 'auto',
+        cursor: mode === 'region' ? 'crosshair' : mode === 'columns' ? 'col-resize' : 'default'
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+    >
+      {region && (
+        <g>
+          <rect
+            x={region.x0 * scale}
+            y={toPixelY(region.y1)}
+            width={(region.x1 - region.x0) * scale}
+            height={(region.y1 - region.y0) * scale}
+            className="fill-primary/5 stroke-primary"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+          {layout.separators.map((separator, index) => (
+            <line
+              key={index}
+              x1={separator * scale}
+              x2={separator * scale}
+              y1={toPixelY(region.y1)}
+              y2={toPixelY(region.y0)}
+              className={dragging === index ? 'stroke-destructive' : 'stroke-primary'}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {layout.roles.map((role, index) => (
+            <text
+              key={index}
+              x={(edges[index] + edges[index + 1]) / 2 * scale}
+              y={toPixelY(region.y1) + 14}
+              textAnchor="middle"
+              className="fill-primary text-xs font-semibold"
+            >
+              {role ? COLUMN_ROLE_LABELS[role] : 'Ignored'}
+            </text>
+          ))}
+        </g>
+      )}
+      {highlights.map((box, index) => (
+        <rect
+          key={`highlight-${index}`}
+          x={box.x0 * scale}
+          y={toPixelY(box.y1)}
+          width={(box.x1 - box.x0) * scale}
+          height={(box.y1 - box.y0) * scale}
+          className="fill-yellow-300/40 stroke-yellow-600"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+      {draft && (
+        <rect
+          x={Math.min(draft.start.x, draft.end.x)}
+          y={Math.min(draft.start.y, draft.end.y)}
+          width={Math.abs(draft.end.x - draft.start.x)}
+          height={Math.abs(draft.end.y - draft.start.y)}
+          className="fill-primary/10 stroke-primary"
+          strokeDasharray="6 4"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
+
+export default TableLayoutOverlay;
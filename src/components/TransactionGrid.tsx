@@ -0,0 +1,398 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { useEditHistory } from "@/hooks/use-edit-history";
+import {
+  EDITABLE_COLUMNS,
+  STATEMENT_COLUMNS,
+  acceptTransaction,
+  cellConfidence,
+  cellEditText,
+  cellHoldsValue,
+  deleteTransaction,
+  editTransactionCell,
+  flipTransactionType,
+  formatMoney,
+  insertTransaction,
+  lowConfidenceColumns,
+  mergeTransactions,
+  reviewQueue,
+  splitTransaction,
+  stepReviewQueue,
+  type EditableColumn,
+  type ExtractedTransaction
+} from "@/lib/statement";
+import {
+  ArrowLeftRight, Check, ChevronDown, ChevronUp, Crosshair, ListChecks, Merge, Pencil, Plus, Redo2, Split, Trash2, Undo2, X
+} from "lucide-react";
+
+interface TransactionGridProps {
+  transactions: ExtractedTransaction[];
+  // Cells read with less confidence than this (0–1) are highlighted, and
+  // their rows queued for review until accepted
+  confidenceThreshold: number;
+  onChange: (transactions: ExtractedTransaction[]) => void;
+  // Show where a row, or one of its cells, was read in the PDF. Adds a
+  // source mode in which clicks go here instead of editing.
+  onShowSource?: (index: number, column?: EditableColumn) => void;
+  // Row picked elsewhere, e.g. on the PDF; selected and scrolled to
+  focusRow?: number | null;
+}
+
+interface EditingCell {
+  row: number;
+  column: EditableColumn;
+  text: string;
+}
+
+const cellText = (transaction: ExtractedTransaction, column: EditableColumn): string => {
+  if (column === 'balance') return transaction.balance ? formatMoney(transaction.balance) : '';
+  if (column === 'debit' || column === 'credit') {
+    return transaction.type === column ? formatMoney(transaction.amount) : '';
+  }
+  return cellEditText(transaction, column);
+};
+
+// Spreadsheet-style correction of extracted rows: click a cell to edit it,
+// click a row number to select the row for the toolbar. Ctrl+Z / Ctrl+Y undo
+// and redo. Reviewing steps through the low-confidence rows with A (accept),
+// E (edit), R (reject), N / P (next / previous). Remount with a new key for
+// each statement.
+const TransactionGrid = ({ transactions, confidenceThreshold, onChange, onShowSource, focusRow }: TransactionGridProps) => {
+  const history = useEditHistory(transactions, onChange);
+  const [selectedRow, setSelectedRow] = useState<number | null>(null);
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+  // Enter and Escape close the input, which then blurs; the blur must not commit again
+  const closedEdit = useRef<EditingCell | null>(null);
+  const [sourceMode, setSourceMode] = useState(false);
+  const rowRefs = useRef<(HTMLTableRowElement | null)[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [reviewing, setReviewing] = useState(false);
+  // Undo can shorten the list under the selection
+  const selected = selectedRow !== null && selectedRow < transactions.length ? selectedRow : null;
+
+  useEffect(() => {
+    if (focusRow === undefined || focusRow === null) return;
+    setSelectedRow(focusRow);
+    rowRefs.current[focusRow]?.scrollIntoView({ block: 'nearest' });
+  }, [focusRow]);
+
+  const handleCellClick = (row: number, column: EditableColumn) => {
+    if (sourceMode && onShowSource) {
+      setSelectedRow(row);
+      onShowSource(row, column);
+    } else {
+      startEdit(row, column);
+    }
+  };
+
+  const handleRowNumberClick = (row: number) => {
+    if (sourceMode && onShowSource) {
+      setSelectedRow(row);
+      onShowSource(row);
+    } else {
+      setSelectedRow(selected === row ? null : row);
+    }
+  };
+
+  const startEdit = (row: number, column: EditableColumn) => {
+    setSelectedRow(row);
+    setEditing({ row, column, text: cellEditText(transactions[row], column) });
+  };
+
+  // Hand the keyboard back to the grid so shortcuts work again
+  const closeEdit = () => {
+    setEditing(null);
+    containerRef.current?.focus();
+  };
+
+  const commitEdit = () => {
+    if (!editing || closedEdit.current === editing) return;
+    closedEdit.current = editing;
+    const { row, column, text } = editing;
+    closeEdit();
+    if (text === cellEditText(transactions[row], column)) return;
+    try {
+      history.apply(editTransactionCell(transactions, row, column, text));
+    } catch (error) {
+      toast.error(`Row ${row + 1}: ${(error as Error).message}`);
+    }
+  };
+
+  // Apply a row action to the selected row and move the selection with it
+  const editRow = (
+    change: (rows: ExtractedTransaction[], index: number) => ExtractedTransaction[],
+    nextRow: (index: number, rows: ExtractedTransaction[]) => number | null = index => index
+  ) => {
+    if (selected === null) return;
+    const next = change(transactions, selected);
+    history.apply(next);
+    setSelectedRow(nextRow(selected, next));
+  };
+
+  const queue = reviewQueue(transactions, confidenceThreshold);
+
+  const selectRow = (row: number | null) => {
+    setSelectedRow(row);
+    if (row !== null) rowRefs.current[row]?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const startReview = () => {
+    setReviewing(true);
+    setSourceMode(false);
+    selectRow(stepReviewQueue(queue, selected === null ? null : selected - 1));
+    containerRef.current?.focus();
+  };
+
+  const acceptRow = () => {
+    if (selected === null) return;
+    history.apply(acceptTransaction(transactions, selected));
+    selectRow(stepReviewQueue(queue.filter(row => row !== selected), selected));
+  };
+
+  // Opens the first doubtful cell; the row stays queued until accepted or every such cell is fixed
+  const editReviewedRow = () => {
+    if (selected === null) return;
+    startEdit(selected, lowConfidenceColumns(transactions[selected], confidenceThreshold)[0] ?? 'description');
+  };
+
+  // A rejected row is not a transaction at all, e.g. a stray header line
+  const rejectRow = () => {
+    if (selected === null) return;
+    const next = deleteTransaction(transactions, selected);
+    history.apply(next);
+    selectRow(stepReviewQueue(reviewQueue(next, confidenceThreshold), selected - 1));
+  };
+
+  const handleReviewKey = (event: React.KeyboardEvent) => {
+    const actions: Record<string, () => void> = {
+      a: acceptRow,
+      e: editReviewedRow,
+      r: rejectRow,
+      delete: rejectRow,
+      n: () => selectRow(stepReviewQueue(queue, selected)),
+      arrowdown: () => selectRow(stepReviewQueue(queue, selected)),
+      p: () => selectRow(stepReviewQueue(queue, selected, -1)),
+      arrowup: () => selectRow(stepReviewQueue(queue, selected, -1)),
+      escape: () => setReviewing(false)
+    };
+    const action = actions[event.key.toLowerCase()];
+    if (!action) return;
+    event.preventDefault();
+    action();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Inputs keep their own keys while a cell is being typed in
+    if (editing) return;
+    if (reviewing && !(event.ctrlKey || event.metaKey || event.altKey)) {
+      handleReviewKey(event);
+      return;
+    }
+    if (!(event.ctrlKey || event.metaKey)) return;
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      history.undo();
+    } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+      event.preventDefault();
+      history.redo();
+    }
+  };
+
+  const breaks = transactions.filter(transaction => transaction.balanceCheck === 'break').length;
+
+  return (
+    <div ref={containerRef} className="space-y-2 outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" disabled={!history.canUndo} onClick={history.undo} title="Undo (Ctrl+Z)">
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" disabled={!history.canRedo} onClick={history.redo} title="Redo (Ctrl+Y)">
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" disabled={selected === null} onClick={() => editRow(flipTransactionType)} title="Switch between debit and credit">
+          <ArrowLeftRight className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" disabled={selected === null} onClick={() => editRow(splitTransaction)} title="Split into two rows">
+          <Split className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selected === null || selected === transactions.length - 1}
+          onClick={() => editRow(mergeTransactions)}
+          title="Merge with the row below"
+        >
+          <Merge className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            // With nothing selected the new row goes at the top
+            const index = selected ?? -1;
+            history.apply(insertTransaction(transactions, index));
+            setSelectedRow(index + 1);
+          }}
+          title="Insert a row below"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selected === null}
+          onClick={() => editRow(deleteTransaction, (index, rows) => (rows.length > 0 ? Math.min(index, rows.length - 1) : null))}
+          title="Delete row"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+        {onShowSource && (
+          <Button
+            variant={sourceMode ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setSourceMode(!sourceMode)}
+            title="Click cells to see where they were read in the PDF"
+          >
+            <Crosshair className="h-4 w-4" />
+          </Button>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {sourceMode
+            ? 'Click a cell or row number to show it in the PDF'
+            : selected === null ? 'Click a row number to select it, a cell to edit it' : `Row ${selected + 1} selected`}
+        </span>
+        {breaks > 0 && (
+          <span className="text-xs text-yellow-600 ml-auto">
+            {breaks} balance {breaks === 1 ? 'break' : 'breaks'}
+          </span>
+        )}
+      </div>
+
+      {(reviewing || queue.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg bg-yellow-50 border border-yellow-200 p-2">
+          <ListChecks className="h-4 w-4 text-yellow-600" />
+          <span className="text-sm">
+            {queue.length === 0
+              ? 'All rows reviewed'
+              : `${queue.length} ${queue.length === 1 ? 'row needs' : 'rows need'} review`}
+            {reviewing && selected !== null && queue.includes(selected) && ` · row ${selected + 1}`}
+          </span>
+          {reviewing ? (
+            <>
+              <Button variant="outline" size="sm" disabled={selected === null} onClick={acceptRow} title="Accept the row as read (A)">
+                <Check className="h-4 w-4 mr-1" />
+                Accept
+              </Button>
+              <Button variant="outline" size="sm" disabled={selected === null} onClick={editReviewedRow} title="Edit the first doubtful cell (E)">
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
+              <Button variant="outline" size="sm" disabled={selected === null} onClick={rejectRow} title="Remove the row, it is not a transaction (R)">
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              <Button variant="outline" size="sm" disabled={queue.length === 0} onClick={() => selectRow(stepReviewQueue(queue, selected, -1))} title="Previous (P)">
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" disabled={queue.length === 0} onClick={() => selectRow(stepReviewQueue(queue, selected))} title="Next (N)">
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setReviewing(false)} title="Stop reviewing (Esc)">
+                Done
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" size="sm" onClick={startReview}>
+              Review
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="max-h-[50vh] overflow-auto border border-border rounded-lg">
+        <table className="w-full border-collapse text-sm">
+          <thead className="sticky top-0 bg-muted z-10">
+            <tr>
+              <th className="border border-border p-2 w-10">#</th>
+              {STATEMENT_COLUMNS.map(column => (
+                <th key={column} className="border border-border p-2 text-left font-semibold">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {transactions.map((transaction, index) => (
+              <tr
+                key={index}
+                ref={(row) => { rowRefs.current[index] = row; }}
+                className={`${transaction.balanceCheck === 'break' ? 'bg-destructive/10' : ''} ${selected === index ? 'outline outline-2 outline-primary' : ''}`}
+              >
+                <td
+                  className="border border-border p-2 text-xs text-muted-foreground cursor-pointer select-none"
+                  onClick={() => handleRowNumberClick(index)}
+                  title={[
+                    transaction.page && `Page ${transaction.page}`,
+                    transaction.source === 'ocr' && 'OCR',
+                    transaction.strategy && `Read by ${transaction.strategy} pass`,
+                    transaction.reviewed && 'Reviewed',
+                    `Confidence ${Math.round(transaction.confidence * 100)}%`
+                  ].filter(Boolean).join(' · ')}
+                >
+                  {index + 1}
+                </td>
+                {EDITABLE_COLUMNS.map(column => {
+                  if (editing?.row === index && editing.column === column) {
+                    return (
+                      <td key={column} className="border border-border p-0">
+                        <input
+                          autoFocus
+                          value={editing.text}
+                          onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                          onBlur={commitEdit}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitEdit();
+                            else if (e.key === 'Escape') {
+                              closedEdit.current = editing;
+                              closeEdit();
+                            }
+                          }}
+                          className="w-full px-2 py-1 bg-background outline-none ring-2 ring-primary"
+                        />
+                      </td>
+                    );
+                  }
+
+                  const confidence = cellConfidence(transaction, column);
+                  const lowConfidence = !transaction.reviewed && cellHoldsValue(transaction, column) && confidence < confidenceThreshold;
+                  const invalid = (column === 'date' && transaction.dateError) ||
+                    (column === 'balance' && transaction.balanceCheck === 'break');
+                  return (
+                    <td
+                      key={column}
+                      className={`border border-border p-2 ${sourceMode ? 'cursor-pointer' : 'cursor-text'} ${lowConfidence ? 'bg-yellow-100' : ''} ${invalid ? 'text-destructive' : ''} ${column === 'description' ? '' : 'whitespace-nowrap'}`}
+                      onClick={() => handleCellClick(index, column)}
+                      title={
+                        column === 'date' && transaction.dateError
+                          ? transaction.dateError
+                          : column === 'balance' && transaction.balanceCheck === 'break'
+                            ? 'Balance does not tie out'
+                            : lowConfidence ? `Confidence ${Math.round(confidence * 100)}%` : undefined
+                      }
+                    >
+                      {cellText(transaction, column)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionGrid;
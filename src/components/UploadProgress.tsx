@@ -1,58 +1,83 @@
-import { useState, useEffect } from "react";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CheckCircle, Download, FileText, Loader2 } from "lucide-react";
+import { AlertTriangle, CheckCircle, Circle, Download, FileText, Loader2, MinusCircle, XCircle } from "lucide-react";
+import {
+  CONVERSION_STAGES,
+  describeProgress,
+  formatDuration,
+  type ConversionProgress,
+  type ConversionStage
+} from "@/lib/pipeline";
 
 interface UploadProgressProps {
   file: File | null;
+  progress: ConversionProgress | null;
+  error: string | null;
+  warnings: string[];
+  // Which pages came from the text layer and which from OCR
+  sourceSummary?: string;
   onDownload: () => void;
+  onCancel: () => void;
   onReset: () => void;
 }
 
-const UploadProgress = ({ file, onDownload, onReset }: UploadProgressProps) => {
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [conversionProgress, setConversionProgress] = useState(0);
-  const [stage, setStage] = useState<'upload' | 'convert' | 'complete'>('upload');
+type StageStatus = 'done' | 'active' | 'failed' | 'skipped' | 'pending';
 
-  useEffect(() => {
-    if (!file) return;
+const stageIndex = (stage: ConversionStage) =>
+  stage === 'done' ? CONVERSION_STAGES.length : CONVERSION_STAGES.findIndex(item => item.stage === stage);
 
-    // Simulate upload progress
-    const uploadInterval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(uploadInterval);
-          setStage('convert');
-          return 100;
-        }
-        return prev + Math.random() * 15;
-      });
-    }, 200);
+const stageStatus = (stage: ConversionStage, progress: ConversionProgress, failed: boolean): StageStatus => {
+  const index = stageIndex(stage);
+  const current = stageIndex(progress.stage);
 
-    return () => clearInterval(uploadInterval);
-  }, [file]);
-
-  useEffect(() => {
-    if (stage !== 'convert') return;
+  if (index < current) {
+    // Stages that had nothing to do for this file
+    if (stage === 'decrypt' && !progress.encrypted) return 'skipped';
+    if (stage === 'ocr' && progress.ocrPages === 0) return 'skipped';
+    return 'done';
+  }
+  if (index === current) return failed ? 'failed' : 'active';
+  return 'pending';
+};
 
-    // Simulate conversion progress
-    const conversionInterval = setInterval(() => {
-      setConversionProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(conversionInterval);
-          setStage('complete');
-          return 100;
-        }
-        return prev + Math.random() * 10;
-      });
-    }, 300);
+// Page counts shown next to the reading and OCR stages
+const stageDetail = (stage: ConversionStage, progress: ConversionProgress) => {
+  if (stage === 'text' && progress.pageCount > 0) return `${progress.pagesRead}/${progress.pageCount} pages`;
+  if (stage === 'ocr' && progress.ocrPages > 0) return `${progress.ocrDone}/${progress.ocrPages} pages`;
+  return '';
+};
 
-    return () => clearInterval(conversionInterval);
-  }, [stage]);
+const StageIcon = ({ status }: { status: StageStatus }) => {
+  switch (status) {
+    case 'done':
+      return <CheckCircle className="h-4 w-4 text-success" />;
+    case 'active':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-destructive" />;
+    case 'skipped':
+      return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground" />;
+  }
+};
 
+const UploadProgress = ({
+  file,
+  progress,
+  error,
+  warnings,
+  sourceSummary,
+  onDownload,
+  onCancel,
+  onReset
+}: UploadProgressProps) => {
   if (!file) return null;
 
+  const complete = progress?.stage === 'done';
+  const percent = Math.round((progress?.fraction ?? 0) * 100);
+
   return (
     <Card className="w-full max-w-2xl mx-auto card-gradient">
       <CardContent className="p-8">
@@ -60,87 +85,107 @@ const UploadProgress = ({ file, onDownload, onReset }: UploadProgressProps) => {
           {/* File Info */}
           <div className="flex items-center space-x-3">
             <FileText className="h-8 w-8 text-primary" />
-            <div>
+            <div className="text-left">
               <h3 className="font-semibold">{file.name}</h3>
               <p className="text-sm text-muted-foreground">
                 {(file.size / 1024 / 1024).toFixed(2)} MB
+                {progress && progress.pageCount > 0 && ` · ${progress.pageCount} pages`}
               </p>
             </div>
           </div>
 
-          {/* Upload Progress */}
+          {/* Overall Progress */}
           <div className="space-y-2">
             <div className="flex justify-between items-center">
-              <span className="text-sm font-medium">Upload Progress</span>
-              <span className="text-sm text-muted-foreground">
-                {Math.round(uploadProgress)}%
+              <span className="text-sm font-medium">
+                {error ? 'Conversion failed' : progress ? describeProgress(progress) : 'Starting...'}
               </span>
-            </div>
-            <Progress 
-              value={uploadProgress} 
-              className="h-2"
-            />
-          </div>
-
-          {/* Conversion Progress */}
-          <div className="space-y-2">
-            <div className="flex justify-between items-center">
-              <span className="text-sm font-medium">Conversion Progress</span>
               <span className="text-sm text-muted-foreground">
-                {Math.round(conversionProgress)}%
+                {percent}%
+                {!complete && !error && progress?.etaMs ? ` · about ${formatDuration(progress.etaMs)} left` : ''}
               </span>
             </div>
-            <Progress 
-              value={conversionProgress} 
-              className="h-2"
-            />
+            <Progress value={percent} className="h-2" />
           </div>
 
-          {/* Status */}
-          <div className="flex items-center justify-center space-x-2 py-4">
-            {stage === 'upload' && (
-              <>
-                <Loader2 className="h-5 w-5 animate-spin text-primary" />
-                <span className="text-sm font-medium">Uploading PDF...</span>
-              </>
-            )}
-            {stage === 'convert' && (
-              <>
-                <Loader2 className="h-5 w-5 animate-spin text-primary" />
-                <span className="text-sm font-medium">Converting to Excel...</span>
-              </>
-            )}
-            {stage === 'complete' && (
-              <>
+          {/* Stages */}
+          {progress && (
+            <ul className="space-y-2 text-left">
+              {CONVERSION_STAGES.map(({ stage, label }) => {
+                const status = stageStatus(stage, progress, !!error);
+                return (
+                  <li key={stage} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center space-x-2">
+                      <StageIcon status={status} />
+                      <span className={status === 'pending' || status === 'skipped' ? 'text-muted-foreground' : ''}>
+                        {label}
+                      </span>
+                    </span>
+                    <span className="text-muted-foreground">
+                      {status === 'skipped' ? 'Not needed' : stageDetail(stage, progress)}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {/* Outcome */}
+          {error && (
+            <div className="flex items-center justify-center space-x-2 text-destructive">
+              <XCircle className="h-5 w-5" />
+              <span className="text-sm font-medium">{error}</span>
+            </div>
+          )}
+          {complete && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-center space-x-2 py-2">
                 <CheckCircle className="h-5 w-5 text-success" />
                 <span className="text-sm font-medium text-success">
-                  Conversion Complete!
+                  Conversion complete in {formatDuration(progress.elapsedMs)}
                 </span>
-              </>
-            )}
-          </div>
+              </div>
+              {sourceSummary && (
+                <p className="text-xs text-muted-foreground">{sourceSummary}</p>
+              )}
+              {warnings.map(warning => (
+                <div key={warning} className="flex items-center space-x-2 text-sm text-yellow-600 text-left">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  <span>{warning}</span>
+                </div>
+              ))}
+            </div>
+          )}
 
-          {/* Action Button */}
-          {stage === 'complete' && (
+          {/* Actions */}
+          {complete || error ? (
             <div className="flex flex-col sm:flex-row gap-3 pt-4">
-              <Button 
-                variant="glow" 
-                size="lg" 
-                onClick={onDownload}
-                className="flex-1"
-              >
-                <Download className="mr-2 h-5 w-5" />
-                Download Excel File
-              </Button>
-              <Button 
-                variant="outline" 
-                size="lg" 
+              {complete && (
+                <Button
+                  variant="glow"
+                  size="lg"
+                  onClick={onDownload}
+                  className="flex-1"
+                >
+                  <Download className="mr-2 h-5 w-5" />
+                  Download Excel File
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="lg"
                 onClick={onReset}
                 className="flex-1 sm:flex-none"
               >
                 Convert Another
               </Button>
             </div>
+          ) : (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
           )}
         </div>
       </CardContent>
@@ -148,4 +193,4 @@ const UploadProgress = ({ file, onDownload, onReset }: UploadProgressProps) => {
   );
 };
 
-export default UploadProgress;
\ No newline at end of file
+export default UploadProgress;
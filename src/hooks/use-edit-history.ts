@@ -0,0 +1,33 @@
+import { useState } from "react";
+
+// Edits kept for undo; older ones are dropped
+const MAX_HISTORY = 100;
+
+// Undo and redo over a value the caller owns. Every change goes through
+// `apply` so it can be stepped back; remount (e.g. with a key) to start over.
+export const useEditHistory = <T>(value: T, onChange: (value: T) => void) => {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  const apply = (next: T) => {
+    setPast([...past, value].slice(-MAX_HISTORY));
+    setFuture([]);
+    onChange(next);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setPast(past.slice(0, -1));
+    setFuture([value, ...future]);
+    onChange(past[past.length - 1]);
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setPast([...past, value]);
+    setFuture(future.slice(1));
+    onChange(future[0]);
+  };
+
+  return { apply, undo, redo, canUndo: past.length > 0, canRedo: future.length > 0 };
+};
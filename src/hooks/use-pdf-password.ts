@@ -0,0 +1,83 @@
+import { useRef, useState } from "react";
+import {
+  loadPasswordRules,
+  openPdfDocument,
+  passwordCandidates,
+  savePasswordRules,
+  type PasswordDetails,
+  type PasswordReason,
+  type PasswordRule
+} from "@/lib/pdf";
+
+export interface PasswordPrompt {
+  fileName: string;
+  reason: PasswordReason;
+}
+
+export interface PdfPasswordDialogProps {
+  prompt: PasswordPrompt | null;
+  rules: PasswordRule[];
+  details: PasswordDetails;
+  onRulesChange: (rules: PasswordRule[]) => void;
+  onDetailsChange: (details: PasswordDetails) => void;
+  onSubmit: (password: string) => void;
+  onTryRules: () => void;
+  onSkip: () => void;
+}
+
+// Opens PDFs for a batch, prompting per encrypted file. Passwords that worked
+// and the saved rules are tried on every later file before asking again.
+export const usePdfPassword = () => {
+  const [prompt, setPrompt] = useState<PasswordPrompt | null>(null);
+  const [rules, setRules] = useState<PasswordRule[]>(loadPasswordRules);
+  const [details, setDetails] = useState<PasswordDetails>({});
+
+  // Read from async code, so kept in refs alongside the state
+  const rulesRef = useRef(rules);
+  const detailsRef = useRef(details);
+  const knownPasswords = useRef<string[]>([]);
+  const resolver = useRef<((answer: string[] | null) => void) | null>(null);
+
+  const answer = (value: string[] | null) => {
+    resolver.current?.(value);
+    resolver.current = null;
+    setPrompt(null);
+  };
+
+  const openDocument = async (data: ArrayBuffer, fileName: string, onEncrypted?: () => void) => {
+    const { pdf, password } = await openPdfDocument(data, {
+      onEncrypted,
+      candidates: [...knownPasswords.current, ...passwordCandidates(rulesRef.current, detailsRef.current)],
+      requestPassword: reason =>
+        new Promise(resolve => {
+          resolver.current = resolve;
+          setPrompt({ fileName, reason });
+        })
+    });
+
+    if (password && !knownPasswords.current.includes(password)) {
+      knownPasswords.current.unshift(password);
+    }
+    return pdf;
+  };
+
+  const dialogProps: PdfPasswordDialogProps = {
+    prompt,
+    rules,
+    details,
+    onRulesChange: next => {
+      rulesRef.current = next;
+      setRules(next);
+      savePasswordRules(next);
+    },
+    onDetailsChange: next => {
+      detailsRef.current = next;
+      setDetails(next);
+    },
+    onSubmit: password => answer([password]),
+    onTryRules: () => answer(passwordCandidates(rulesRef.current, detailsRef.current)),
+    onSkip: () => answer(null)
+  };
+
+  return { openDocument, dialogProps };
+};
@@ -0,0 +1,26 @@
+import { useSyncExternalStore } from "react";
+import { loadReviewThreshold, saveReviewThreshold } from "@/lib/statement";
+
+// Tells this tab's converters about a change; other tabs hear `storage`
+const CHANGE_EVENT = 'review-threshold-change';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener(CHANGE_EVENT, onChange);
+  window.addEventListener('storage', onChange);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener('storage', onChange);
+  };
+};
+
+// The saved review threshold, kept current wherever it is changed
+export const useReviewThreshold = () => {
+  const threshold = useSyncExternalStore(subscribe, loadReviewThreshold);
+
+  const setThreshold = (next: number) => {
+    saveReviewThreshold(next);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  };
+
+  return { threshold, setThreshold };
+};
@@ -0,0 +1,64 @@
+// One loader for the heavy third-party libraries. Everything is bundled with
+// the app, including the pdf.js worker and Tesseract's core and traineddata,
+// so nothing is fetched from a CDN at runtime and the tool works offline.
+import type * as PdfJs from "pdfjs-dist";
+import type * as Tesseract from "tesseract.js";
+import type * as SheetJS from "xlsx";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+export type PdfJsModule = typeof PdfJs;
+export type TesseractModule = typeof Tesseract;
+export type XlsxModule = typeof SheetJS;
+export type OcrWorker = Tesseract.Worker;
+
+export interface Libraries {
+  pdfjs: PdfJsModule;
+  tesseract: TesseractModule;
+  xlsx: XlsxModule;
+}
+
+// Tesseract assets are copied next to the app by the tesseract-assets Vite plugin
+const TESSERACT_BASE = `${import.meta.env.BASE_URL}tesseract`;
+
+let pdfjsPromise: Promise<PdfJsModule> | null = null;
+let tesseractPromise: Promise<TesseractModule> | null = null;
+let xlsxPromise: Promise<XlsxModule> | null = null;
+
+export const loadPdfJs = (): Promise<PdfJsModule> => {
+  pdfjsPromise ??= import("pdfjs-dist").then(pdfjs => {
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+    return pdfjs;
+  });
+  return pdfjsPromise;
+};
+
+export const loadTesseract = (): Promise<TesseractModule> => {
+  tesseractPromise ??= import("tesseract.js").then(module => (module.default ?? module) as TesseractModule);
+  return tesseractPromise;
+};
+
+export const loadXlsx = (): Promise<XlsxModule> => {
+  xlsxPromise ??= import("xlsx");
+  return xlsxPromise;
+};
+
+export const loadLibraries = async (): Promise<Libraries> => {
+  const [pdfjs, tesseract, xlsx] = await Promise.all([loadPdfJs(), loadTesseract(), loadXlsx()]);
+  return { pdfjs, tesseract, xlsx };
+};
+
+// LSTM-only Tesseract worker reading the bundled core and language data
+export const createOcrWorker = async (
+  languages: string | string[] = 'eng',
+  options: Partial<Tesseract.WorkerOptions> = {}
+): Promise<OcrWorker> => {
+  const tesseract = await loadTesseract();
+  return tesseract.createWorker(languages, tesseract.OEM.LSTM_ONLY, {
+    workerPath: `${TESSERACT_BASE}/worker.min.js`,
+    corePath: `${TESSERACT_BASE}/core`,
+    langPath: `${TESSERACT_BASE}/lang`,
+    // A blob worker cannot importScripts a relative URL
+    workerBlobURL: false,
+    ...options
+  });
+};
@@ -0,0 +1,77 @@
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+import { loadPdfJs } from "@/lib/libraries";
+
+export type PdfDocument = PDFDocumentProxy;
+export type PdfPage = PDFPageProxy;
+
+export type PasswordReason = 'required' | 'incorrect';
+
+export interface OpenPdfOptions {
+  // Tried in order before asking, e.g. passwords that opened earlier files
+  candidates?: string[];
+  // Asked once the candidates run out; resolve with passwords to try, or null to give up
+  requestPassword?: (reason: PasswordReason) => Promise<string[] | null>;
+  // Called once, when the file turns out to be encrypted
+  onEncrypted?: () => void;
+}
+
+export interface OpenedPdf {
+  pdf: PdfDocument;
+  // The password that unlocked the file, if it was encrypted
+  password?: string;
+}
+
+export const isPasswordException = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'PasswordException';
+
+export const PASSWORD_SKIPPED = 'PasswordSkipped';
+
+export const isPasswordSkipped = (error: unknown): boolean =>
+  error instanceof Error && error.name === PASSWORD_SKIPPED;
+
+// Open a PDF, working through candidate passwords and then the prompt until
+// one unlocks it. Giving up on the prompt rejects with a PasswordSkipped error.
+export const openPdfDocument = async (data: ArrayBuffer, options: OpenPdfOptions = {}): Promise<OpenedPdf> => {
+  const pdfjs = await loadPdfJs();
+  const queue = [...(options.candidates || [])];
+  let password: string | undefined;
+
+  for (;;) {
+    // pdf.js transfers the buffer to its worker, so every attempt gets a copy
+    const loadingTask = pdfjs.getDocument({ data: data.slice(0), password });
+    try {
+      const pdf = await loadingTask.promise;
+      return { pdf, password };
+    } catch (error) {
+      loadingTask.destroy();
+      if (!isPasswordException(error)) throw error;
+      if (password === undefined) options.onEncrypted?.();
+
+      if (queue.length === 0) {
+        const reason: PasswordReason =
+          password === undefined && (error as { code?: number }).code === pdfjs.PasswordResponses.NEED_PASSWORD
+            ? 'required'
+            : 'incorrect';
+        const answer = options.requestPassword ? await options.requestPassword(reason) : null;
+        if (!answer || answer.length === 0) {
+          const skipped = new Error('The PDF is password protected and no password was given');
+          skipped.name = PASSWORD_SKIPPED;
+          throw skipped;
+        }
+        queue.push(...answer);
+      }
+      password = queue.shift();
+    }
+  }
+};
+
+// Draw a page onto a fresh offscreen canvas, e.g. as input for OCR
+export const renderPageToCanvas = async (pdf: PdfDocument, pageNumber: number, scale: number) => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+  return canvas;
+};
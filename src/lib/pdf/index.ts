@@ -0,0 +1,3 @@
+// PDF loading helpers shared by the converter components
+export * from "./document";
+export * from "./passwords";
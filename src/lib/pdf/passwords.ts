@@ -0,0 +1,85 @@
+// Password rules for encrypted statements. Banks build the password from the
+// account holder's details, so a rule is a template such as "{name4}{dob:DDMM}".
+
+export interface PasswordDetails {
+  name?: string;
+  // YYYY-MM-DD, as given by a date input
+  dob?: string;
+  pan?: string;
+  mobile?: string;
+  accountNumber?: string;
+  customerId?: string;
+}
+
+export interface PasswordRule {
+  id: string;
+  label: string;
+  template: string;
+  enabled: boolean;
+}
+
+export const DEFAULT_PASSWORD_RULES: PasswordRule[] = [
+  { id: 'dob', label: 'Date of birth (DDMMYYYY)', template: '{dob:DDMMYYYY}', enabled: true },
+  { id: 'name-dob', label: 'First 4 letters of name + DDMM (ICICI, Axis, Kotak)', template: '{name4}{dob:DDMM}', enabled: true },
+  { id: 'mobile-dob', label: 'Last 5 digits of mobile + DDMMYY (SBI)', template: '{mobile5}{dob:DDMMYY}', enabled: true },
+  { id: 'customer-id', label: 'Customer ID (HDFC)', template: '{customerId}', enabled: true },
+  { id: 'pan', label: 'PAN', template: '{PAN}', enabled: true }
+];
+
+const STORAGE_KEY = 'statement-password-rules';
+
+const letters = (value: string | undefined) => (value || '').replace(/[^a-z]/gi, '');
+const digits = (value: string | undefined) => (value || '').replace(/\D/g, '');
+
+const formatDob = (dob: string | undefined, format = 'DDMMYYYY'): string | undefined => {
+  const match = dob?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const [, year, month, day] = match;
+  const tokens: Record<string, string> = { YYYY: year, YY: year.slice(2), MM: month, DD: day };
+  return format.replace(/YYYY|YY|MM|DD/g, token => tokens[token]);
+};
+
+// A placeholder resolves to undefined when the detail it needs is missing
+const PLACEHOLDERS: Record<string, (details: PasswordDetails, format?: string) => string | undefined> = {
+  name4: details => (letters(details.name).length >= 4 ? letters(details.name).slice(0, 4).toLowerCase() : undefined),
+  NAME4: details => (letters(details.name).length >= 4 ? letters(details.name).slice(0, 4).toUpperCase() : undefined),
+  dob: (details, format) => formatDob(details.dob, format),
+  pan: details => details.pan?.trim().toLowerCase() || undefined,
+  PAN: details => details.pan?.trim().toUpperCase() || undefined,
+  mobile5: details => (digits(details.mobile).length >= 5 ? digits(details.mobile).slice(-5) : undefined),
+  acct4: details => (digits(details.accountNumber).length >= 4 ? digits(details.accountNumber).slice(-4) : undefined),
+  customerId: details => details.customerId?.trim() || undefined
+};
+
+// Fill a rule template, or null when a detail is missing or the placeholder is unknown
+export const expandPasswordTemplate = (template: string, details: PasswordDetails): string | null => {
+  let complete = true;
+  const password = template.replace(/\{(\w+)(?::(\w+))?\}/g, (_, name: string, format?: string) => {
+    const value = PLACEHOLDERS[name]?.(details, format);
+    if (value === undefined) complete = false;
+    return value ?? '';
+  });
+  return complete && password ? password : null;
+};
+
+export const passwordCandidates = (rules: PasswordRule[], details: PasswordDetails): string[] => {
+  const candidates = rules
+    .filter(rule => rule.enabled)
+    .map(rule => expandPasswordTemplate(rule.template, details))
+    .filter((password): password is string => password !== null);
+  return Array.from(new Set(candidates));
+};
+
+// Only the templates are stored; the details they are filled with stay in memory
+export const loadPasswordRules = (): PasswordRule[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as PasswordRule[]) : DEFAULT_PASSWORD_RULES;
+  } catch (error) {
+    return DEFAULT_PASSWORD_RULES;
+  }
+};
+
+export const savePasswordRules = (rules: PasswordRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
@@ -0,0 +1,26 @@
+// Cancellation helpers built on AbortSignal, shared by the pipeline stages
+
+export const abortError = (): DOMException => new DOMException('Processing was cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
+
+// Settle with the promise, or reject as soon as the signal fires. The work
+// itself keeps running; callers tear down workers to actually stop it.
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
@@ -0,0 +1,105 @@
+import { loadPdfJs } from "@/lib/libraries";
+import type { PdfPage } from "@/lib/pdf";
+import type { PdfTextItem } from "@/lib/statement";
+
+// Fewer non-space characters than this and a page is treated as an image
+const MIN_PAGE_TEXT = 20;
+// Below these a page is sparse: a letterhead or a header over a scanned table.
+// A full digital statement page runs at 25+ characters per square inch and
+// its glyph boxes cover a quarter of the page or more.
+const SPARSE_DENSITY = 8;
+const SPARSE_GLYPH_COVERAGE = 0.05;
+// A sparse page is OCR'd when images cover at least this much of it
+const IMAGE_COVERAGE_FOR_OCR = 0.25;
+const POINTS_PER_INCH = 72;
+
+export interface PageTextMetrics {
+  // Non-space characters in the text layer
+  characters: number;
+  // Characters per square inch of page
+  density: number;
+  // Share of the page covered by text item boxes, 0–1
+  glyphCoverage: number;
+  // Share of the page covered by painted images, 0–1; only measured for sparse pages
+  imageCoverage?: number;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const multiply = (m: Matrix, n: number[]): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+// Sum the area of every image drawn on the page. Images are painted into the
+// unit square, so each one covers |det(CTM)| of page space.
+const measureImageArea = async (page: PdfPage): Promise<number> => {
+  const { OPS } = await loadPdfJs();
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const imageOps = new Set([
+    OPS.paintImageXObject,
+    OPS.paintInlineImageXObject,
+    OPS.paintImageMaskXObject,
+    OPS.paintImageXObjectRepeat
+  ]);
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+  let area = 0;
+
+  fnArray.forEach((fn, index) => {
+    const args = argsArray[index];
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore || fn === OPS.paintFormXObjectEnd) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.transform) {
+      ctm = multiply(ctm, args);
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(ctm);
+      if (Array.isArray(args[0])) ctm = multiply(ctm, args[0]);
+    } else if (imageOps.has(fn)) {
+      area += Math.abs(ctm[0] * ctm[3] - ctm[1] * ctm[2]);
+    }
+  });
+
+  return area;
+};
+
+const isSparse = (metrics: PageTextMetrics) =>
+  metrics.density < SPARSE_DENSITY || metrics.glyphCoverage < SPARSE_GLYPH_COVERAGE;
+
+export const measurePageText = async (page: PdfPage, items: PdfTextItem[]): Promise<PageTextMetrics> => {
+  const { width, height } = page.getViewport({ scale: 1 });
+  const pageArea = width * height;
+
+  let characters = 0;
+  let glyphArea = 0;
+  items.forEach(item => {
+    if (typeof item.str !== 'string') return;
+    characters += item.str.replace(/\s/g, '').length;
+    // Items without a height fall back to the font size in the transform
+    const itemHeight = item.height || Math.hypot(item.transform[2], item.transform[3]);
+    glyphArea += (item.width || 0) * itemHeight;
+  });
+
+  const metrics: PageTextMetrics = {
+    characters,
+    density: characters / (pageArea / (POINTS_PER_INCH * POINTS_PER_INCH)),
+    glyphCoverage: Math.min(1, glyphArea / pageArea)
+  };
+
+  // The operator list is only worth fetching for pages that might be scans
+  if (characters >= MIN_PAGE_TEXT && isSparse(metrics)) {
+    metrics.imageCoverage = Math.min(1, (await measureImageArea(page)) / pageArea);
+  }
+  return metrics;
+};
+
+export const hasUsableTextLayer = (metrics: PageTextMetrics): boolean => {
+  if (metrics.characters < MIN_PAGE_TEXT) return false;
+  return !isSparse(metrics) || (metrics.imageCoverage ?? 0) < IMAGE_COVERAGE_FOR_OCR;
+};
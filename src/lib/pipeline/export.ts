@@ -0,0 +1,68 @@
+import { loadXlsx } from "@/lib/libraries";
+import {
+  STATEMENT_COLUMNS,
+  headerToRecord,
+  toSheetRows,
+  transactionsToRows,
+  type ParsedStatement,
+  type SheetFormat,
+  type SheetValue,
+  type StatementCell
+} from "@/lib/statement";
+
+// One statement laid out as a single sheet: account details, then the table
+export interface StatementSheet {
+  fileName: string;
+  header: Record<string, string>;
+  columns: string[];
+  rows: StatementCell[][];
+}
+
+export interface ExportedFile {
+  blob: Blob;
+  fileName: string;
+}
+
+export const statementSheet = (fileName: string, parsed: ParsedStatement): StatementSheet => ({
+  fileName,
+  header: headerToRecord(parsed.header),
+  columns: STATEMENT_COLUMNS,
+  rows: transactionsToRows(parsed.transactions)
+});
+
+export const buildStatementFile = async (sheet: StatementSheet, format: SheetFormat): Promise<ExportedFile> => {
+  const XLSX = await loadXlsx();
+  const { fileName, header, columns, rows } = sheet;
+
+  const output: SheetValue[][] = [['Source PDF', fileName]];
+  Object.entries(header || {}).forEach(([key, value]) => {
+    if (value) output.push([key, value]);
+  });
+  output.push([], columns);
+
+  const ws = XLSX.utils.aoa_to_sheet([...toSheetRows(output, format), ...toSheetRows(rows, format)]);
+  const outputName = fileName.replace(/\.pdf$/i, '') + (format === 'csv' ? '.csv' : '.xlsx');
+
+  if (format === 'csv') {
+    const csv = XLSX.utils.sheet_to_csv(ws);
+    return { blob: new Blob([csv], { type: 'text/csv;charset=utf-8' }), fileName: outputName };
+  }
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Transactions');
+  const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  return { blob: new Blob([wbout], { type: 'application/octet-stream' }), fileName: outputName };
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+    a.remove();
+  }, 60000);
+};
@@ -0,0 +1,205 @@
+import type { WorkerParams } from "tesseract.js";
+import { renderPageToCanvas, type PdfDocument } from "@/lib/pdf";
+import { textItemsToLines, type ExtractionMethod, type PdfTextItem, type StatementPageInput } from "@/lib/statement";
+import { throwIfAborted } from "./cancel";
+import { hasUsableTextLayer, measurePageText, type PageTextMetrics } from "./density";
+import type { PreprocessOptions } from "./image";
+import { OCR_TARGET_DPI, ocrRenderScale, preprocessCanvas } from "./preprocess";
+import {
+  AUTO_OCR_LANGUAGES,
+  canDetectOcrLanguages,
+  detectOcrLanguages,
+  probeOcrLanguages,
+  toLanguageList
+} from "./languages";
+import { ocrWordsToItems } from "./ocr-layout";
+import { createOcrPool, defaultOcrPoolSize } from "./ocr-pool";
+
+// Render scale for OCR without preprocessing; 144 DPI
+const OCR_SCALE = 2;
+// Render scale of the language probe; 108 DPI is plenty to tell scripts apart
+const PROBE_SCALE = 1.5;
+// A text layer is exact, so it scores above any OCR result
+const TEXT_LAYER_CONFIDENCE = 0.9;
+
+export type PipelineStage = 'text' | 'ocr' | 'parse';
+
+// auto: OCR pages without a usable text layer, judged by text density and
+// glyph versus image coverage; force: OCR every page;
+// pages: OCR exactly the listed pages and take the rest from the text layer
+export type OcrMode = 'auto' | 'force' | 'pages';
+
+export interface PipelineProgress {
+  stage: PipelineStage;
+  // Page the event is about; absent for whole-document stages
+  pageNumber?: number;
+  // Pages being read, which may be a selection of the document
+  pageCount: number;
+  // Text layers read so far
+  pagesRead: number;
+  // Pages without usable text queued for OCR, and how many of those are done
+  ocrPages: number;
+  ocrDone: number;
+  // Recognition progress of the OCR page, 0–1
+  pageProgress?: number;
+}
+
+export interface PageContent {
+  pageNumber: number;
+  method: ExtractionMethod;
+  // Positioned items from the text layer or OCR words, for column detection
+  items?: PdfTextItem[];
+  text: string;
+  confidence: number;
+  // What the text layer / OCR decision was based on; null outside auto mode
+  metrics: PageTextMetrics | null;
+  // Rotation corrected before OCR, in degrees
+  skew?: number;
+  // Tesseract languages the page was OCR'd with
+  languages?: string[];
+  // OCR of a page kept from its text layer, as a second reading to compare
+  ocrReading?: { items: PdfTextItem[]; text: string; confidence: number };
+}
+
+export interface ExtractPagesOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PipelineProgress) => void;
+  // Codes or "eng+hin"; 'auto' or unset picks them from the text layer
+  ocrLanguages?: string | string[];
+  ocrParameters?: Partial<WorkerParams>;
+  ocrMode?: OcrMode;
+  // Pages for the 'pages' mode, 1-based
+  ocrPageNumbers?: number[];
+  // Clean up rendered pages before OCR (true for every step)
+  preprocess?: boolean | PreprocessOptions;
+  // Pages to read, 1-based and in order; every page by default
+  pageNumbers?: number[];
+  // OCR the pages that keep their text layer too, into `ocrReading`, for
+  // multi-pass voting; it costs an OCR run per page, so it's off by default
+  ocrTextPages?: boolean;
+}
+
+// Statement engine input for an extracted page
+export const pageInput = (page: PageContent): StatementPageInput => page.items ?? page.text;
+
+// Read every page's text layer, then OCR the pages the mode selects across a
+// pool of Tesseract workers. Pages come back in page order.
+export const extractPages = async (pdf: PdfDocument, options: ExtractPagesOptions = {}): Promise<PageContent[]> => {
+  const { signal, onProgress } = options;
+  const preprocess = options.preprocess === true ? {} : options.preprocess || null;
+  const mode = options.ocrMode ?? 'auto';
+  const selected = new Set(options.ocrPageNumbers || []);
+  const pageNumbers = options.pageNumbers?.length
+    ? options.pageNumbers.filter(pageNumber => pageNumber >= 1 && pageNumber <= pdf.numPages)
+    : Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+  const pageCount = pageNumbers.length;
+  const pages: PageContent[] = [];
+  // Positions in `pages` of the pages to OCR, and of those only read for comparison
+  const ocrQueue: number[] = [];
+  const keepsTextLayer = new Set<number>();
+
+  for (const [index, pageNumber] of pageNumbers.entries()) {
+    throwIfAborted(signal);
+    const page = await pdf.getPage(pageNumber);
+    const items = (await page.getTextContent()).items as PdfTextItem[];
+    const text = textItemsToLines(items).join('\n');
+
+    // Only auto mode decides per page, so the others skip the measuring
+    const metrics = mode === 'auto' ? await measurePageText(page, items) : null;
+    const hasText = metrics ? hasUsableTextLayer(metrics) : text.trim().length > 0;
+
+    pages[index] = {
+      pageNumber,
+      method: 'text',
+      items,
+      text,
+      confidence: hasText ? TEXT_LAYER_CONFIDENCE : 0,
+      metrics
+    };
+    if (mode === 'force' || (mode === 'pages' ? selected.has(pageNumber) : !hasText)) {
+      ocrQueue.push(index);
+    } else if (options.ocrTextPages) {
+      ocrQueue.push(index);
+      keepsTextLayer.add(index);
+    }
+    onProgress?.({ stage: 'text', pageNumber, pageCount, pagesRead: index + 1, ocrPages: ocrQueue.length, ocrDone: 0 });
+  }
+
+  if (ocrQueue.length === 0) return pages;
+
+  let ocrDone = 0;
+  const ocrProgress = (pageNumber: number, pageProgress: number): PipelineProgress =>
+    ({ stage: 'ocr', pageNumber, pageCount, pagesRead: pageCount, ocrPages: ocrQueue.length, ocrDone, pageProgress });
+
+  const layerText = pages.map(page => page.text).join('\n');
+  let languages: string[];
+  if (options.ocrLanguages && options.ocrLanguages !== AUTO_OCR_LANGUAGES) {
+    languages = toLanguageList(options.ocrLanguages);
+  } else if (canDetectOcrLanguages(layerText)) {
+    languages = detectOcrLanguages(layerText);
+  } else {
+    // A scan has no text layer to read the scripts from, so probe its first OCR page
+    const canvas = await renderPageToCanvas(pdf, pages[ocrQueue[0]].pageNumber, PROBE_SCALE);
+    try {
+      languages = await probeOcrLanguages(canvas, signal);
+    } finally {
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  }
+  const parameters = { ...options.ocrParameters };
+  // A Latin whitelist would throw away every Devanagari or Tamil glyph
+  if (languages.some(code => code !== 'eng')) delete parameters.tessedit_char_whitelist;
+  if (preprocess) parameters.user_defined_dpi ??= String(OCR_TARGET_DPI);
+
+  const pool = await createOcrPool({
+    languages,
+    parameters,
+    size: Math.min(defaultOcrPoolSize(), ocrQueue.length)
+  });
+
+  // One page per worker at a time, so only that many canvases are alive
+  const ocrPage = async (index: number) => {
+    throwIfAborted(signal);
+    const { pageNumber } = pages[index];
+    const { width, height } = (await pdf.getPage(pageNumber)).getViewport({ scale: 1 });
+    const scale = preprocess ? ocrRenderScale(width, height) : OCR_SCALE;
+    const canvas = await renderPageToCanvas(pdf, pageNumber, scale);
+    try {
+      const skew = preprocess ? await preprocessCanvas(canvas, preprocess, signal) : undefined;
+      const result = await pool.recognize(canvas, {
+        signal,
+        onProgress: pageProgress => onProgress?.(ocrProgress(pageNumber, pageProgress))
+      });
+      const reading = {
+        items: ocrWordsToItems(result.words, scale, height),
+        text: result.text,
+        confidence: result.confidence / 100
+      };
+      pages[index] = keepsTextLayer.has(index)
+        ? { ...pages[index], ocrReading: reading, skew, languages }
+        : { ...pages[index], ...reading, method: 'ocr', skew, languages };
+      ocrDone++;
+      onProgress?.(ocrProgress(pageNumber, 1));
+    } finally {
+      // Release the bitmap now rather than whenever the canvas is collected
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  };
+
+  try {
+    let next = 0;
+    await Promise.all(
+      Array.from({ length: pool.size }, async () => {
+        while (next < ocrQueue.length) {
+          await ocrPage(ocrQueue[next++]);
+        }
+      })
+    );
+  } finally {
+    await pool.terminate();
+  }
+
+  return pages;
+};
@@ -0,0 +1,44 @@
+import type { PdfDocument } from "@/lib/pdf";
+import { groupTextItemsIntoLines, type PdfTextItem } from "@/lib/statement";
+
+// Lines from the top of the first page that make up the statement header
+const HEADER_LINES = 15;
+
+// What a bank's statement layout looks like, independent of the account
+export interface DocumentFingerprint {
+  // Words from the top of the first page, lower-cased, without numbers
+  headerWords: string[];
+  // Fonts on the first page, without subset prefixes ("ABCDEF+Arial" -> "Arial")
+  fonts: string[];
+  // First page size in points, rounded
+  pageSize: [number, number];
+}
+
+// Read the first page's header words, fonts and size
+export const fingerprintDocument = async (pdf: PdfDocument): Promise<DocumentFingerprint> => {
+  const page = await pdf.getPage(1);
+  const { width, height } = page.getViewport({ scale: 1 });
+  const items = (await page.getTextContent()).items as (PdfTextItem & { fontName?: string })[];
+
+  const headerText = groupTextItemsIntoLines(items)
+    .slice(0, HEADER_LINES)
+    .map(line => line.map(item => item.str).join(' '))
+    .join(' ')
+    .toLowerCase();
+  const headerWords = [...new Set(headerText.match(/\p{L}{3,}/gu) || [])].sort();
+
+  // Text items only carry pdf.js's internal font ids; the real names are on
+  // the font objects, which exist once the page's operators are loaded
+  await page.getOperatorList();
+  const fonts = new Set<string>();
+  for (const id of new Set(items.map(item => item.fontName).filter(Boolean))) {
+    try {
+      const font = page.commonObjs.get(id) as { name?: string } | null;
+      if (font?.name) fonts.add(font.name.replace(/^[A-Z]{6}\+/, ''));
+    } catch (error) {
+      // Font not loaded; the other signals still count
+    }
+  }
+
+  return { headerWords, fonts: [...fonts].sort(), pageSize: [Math.round(width), Math.round(height)] };
+};
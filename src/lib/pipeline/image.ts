@@ -0,0 +1,236 @@
+// Pure image operations for OCR preprocessing. They work on plain typed
+// arrays so they run inside a worker, away from the canvas.
+
+// One byte per pixel, 0 = ink, 255 = paper
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface PreprocessOptions {
+  denoise?: boolean;
+  binarize?: boolean;
+  deskew?: boolean;
+  removeGridLines?: boolean;
+}
+
+export interface PreprocessResult {
+  image: GrayImage;
+  // Skew that was corrected, in degrees
+  skew: number;
+}
+
+// Skews smaller than this are left alone; rotating costs a little sharpness
+const MIN_SKEW = 0.15;
+// Phone scans are rarely tilted further than this
+const MAX_SKEW = 5;
+// Enough ink pixels to find the text lines without scoring every pixel
+const SKEW_SAMPLE = 40000;
+// Bradley threshold: a pixel is ink when this much darker than its surroundings
+const THRESHOLD_BIAS = 0.15;
+const INK = 0;
+const PAPER = 255;
+
+// RGBA to luminance; transparent pixels count as paper
+export const toGray = (width: number, height: number, rgba: Uint8ClampedArray): GrayImage => {
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    const alpha = rgba[p + 3] / 255;
+    const luminance = 0.299 * rgba[p] + 0.587 * rgba[p + 1] + 0.114 * rgba[p + 2];
+    data[i] = luminance * alpha + PAPER * (1 - alpha);
+  }
+  return { width, height, data };
+};
+
+export const grayToRgba = ({ data }: GrayImage): Uint8ClampedArray<ArrayBuffer> => {
+  const rgba = new Uint8ClampedArray(data.length * 4);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    rgba[p] = rgba[p + 1] = rgba[p + 2] = data[i];
+    rgba[p + 3] = 255;
+  }
+  return rgba;
+};
+
+// 3×3 median: removes the speckle of phone scans without blurring strokes
+export const medianFilter = ({ width, height, data }: GrayImage): GrayImage => {
+  const out = new Uint8ClampedArray(data);
+  const window = new Uint8Array(9);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const row = (y + dy) * width + x;
+        window[n++] = data[row - 1];
+        window[n++] = data[row];
+        window[n++] = data[row + 1];
+      }
+      // Insertion sort; nine values
+      for (let i = 1; i < 9; i++) {
+        const value = window[i];
+        let j = i - 1;
+        while (j >= 0 && window[j] > value) {
+          window[j + 1] = window[j];
+          j--;
+        }
+        window[j + 1] = value;
+      }
+      out[y * width + x] = window[4];
+    }
+  }
+  return { width, height, data: out };
+};
+
+// Bradley adaptive threshold against the local mean, so shadows and uneven
+// lighting across a photographed page don't swallow the text
+export const adaptiveThreshold = (
+  { width, height, data }: GrayImage,
+  windowSize = Math.max(15, Math.round(width / 16))
+): GrayImage => {
+  const stride = width + 1;
+  // Sums stay below 2^32 for any page under 16 megapixels
+  const integral = new Uint32Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.floor(windowSize / 2);
+  const out = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - half);
+    const y2 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - half);
+      const x2 = Math.min(width, x + half + 1);
+      const sum = integral[y2 * stride + x2] - integral[y1 * stride + x2] - integral[y2 * stride + x1] + integral[y1 * stride + x1];
+      const count = (x2 - x1) * (y2 - y1);
+      out[y * width + x] = data[y * width + x] * count <= sum * (1 - THRESHOLD_BIAS) ? INK : PAPER;
+    }
+  }
+  return { width, height, data: out };
+};
+
+// Skew of the text lines in degrees, positive when lines fall to the right.
+// Projection profile: at the right angle, ink collapses into a few sharp rows.
+export const estimateSkew = ({ width, height, data }: GrayImage): number => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let inkCount = 0;
+  for (let i = 0; i < data.length; i++) if (data[i] < 128) inkCount++;
+  const step = Math.max(1, Math.floor(inkCount / SKEW_SAMPLE));
+
+  for (let i = 0, seen = 0; i < data.length; i++) {
+    if (data[i] >= 128) continue;
+    if (seen++ % step === 0) {
+      xs.push(i % width);
+      ys.push(Math.floor(i / width));
+    }
+  }
+  if (xs.length < 100) return 0;
+
+  const margin = Math.ceil(width * Math.tan(MAX_SKEW * Math.PI / 180)) + 1;
+  const bins = new Uint32Array(height + margin * 2);
+  const score = (degrees: number) => {
+    const slope = Math.tan(degrees * Math.PI / 180);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] - xs[i] * slope) + margin]++;
+    }
+    let total = 0;
+    for (let i = 0; i < bins.length; i++) total += bins[i] * bins[i];
+    return total;
+  };
+  const search = (from: number, to: number, by: number, best: number) => {
+    let bestScore = score(best);
+    for (let angle = from; angle <= to + 1e-9; angle += by) {
+      const value = score(angle);
+      if (value > bestScore) {
+        bestScore = value;
+        best = angle;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW, MAX_SKEW, 0.5, 0);
+  return search(coarse - 0.5, coarse + 0.5, 0.1, coarse);
+};
+
+// Rotate clockwise as displayed, about the centre, nearest neighbour;
+// uncovered corners become paper
+export const rotateImage = ({ width, height, data }: GrayImage, degrees: number): GrayImage => {
+  const radians = degrees * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const cx = width / 2;
+  const cy = height / 2;
+  const out = new Uint8ClampedArray(data.length).fill(PAPER);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Inverse mapping: where this output pixel comes from in the source
+      const dx = x - cx;
+      const dy = y - cy;
+      const sx = Math.round(cx + dx * cos + dy * sin);
+      const sy = Math.round(cy - dx * sin + dy * cos);
+      if (sx >= 0 && sx < width && sy >= 0 && sy < height) {
+        out[y * width + x] = data[sy * width + sx];
+      }
+    }
+  }
+  return { width, height, data: out };
+};
+
+// Blank out long straight runs of ink: the ruled borders of statement tables,
+// which Tesseract otherwise reads as |, l, 1 or underscores
+export const removeGridLines = (
+  { width, height, data }: GrayImage,
+  minLength = Math.round(Math.min(width, height) / 12)
+): GrayImage => {
+  const out = new Uint8ClampedArray(data);
+
+  const clearRuns = (count: number, length: number, index: (line: number, position: number) => number) => {
+    for (let line = 0; line < count; line++) {
+      let start = -1;
+      for (let position = 0; position <= length; position++) {
+        const ink = position < length && data[index(line, position)] < 128;
+        if (ink && start < 0) start = position;
+        if (!ink && start >= 0) {
+          if (position - start >= minLength) {
+            for (let p = start; p < position; p++) out[index(line, p)] = PAPER;
+          }
+          start = -1;
+        }
+      }
+    }
+  };
+
+  clearRuns(height, width, (y, x) => y * width + x);
+  clearRuns(width, height, (x, y) => y * width + x);
+  return { width, height, data: out };
+};
+
+export const preprocessImage = (image: GrayImage, options: PreprocessOptions = {}): PreprocessResult => {
+  const { denoise = true, binarize = true, deskew = true, removeGridLines: removeLines = true } = options;
+  let result = image;
+  let skew = 0;
+
+  if (denoise) result = medianFilter(result);
+  if (binarize) result = adaptiveThreshold(result);
+  if (deskew) {
+    const angle = estimateSkew(result);
+    if (Math.abs(angle) >= MIN_SKEW) {
+      result = rotateImage(result, -angle);
+      skew = angle;
+    }
+  }
+  // Runs are only well defined on a binary image
+  if (removeLines && binarize) result = removeGridLines(result);
+
+  return { image: result, skew };
+};
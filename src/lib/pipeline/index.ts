@@ -0,0 +1,57 @@
+// Statement processing pipeline. pdf.js reads the text layer in its own
+// worker, scanned pages are cleaned up in a preprocessing worker and OCR'd
+// across a pool of Tesseract workers, and the statement engine runs in a
+// dedicated parse worker, so the UI thread only coordinates and draws progress.
+import type { PdfDocument } from "@/lib/pdf";
+import type { ParsedStatement, TextItemParseOptions } from "@/lib/statement";
+import { throwIfAborted } from "./cancel";
+import { extractPages, pageInput, type ExtractPagesOptions, type PageContent } from "./extract";
+import { parsePagesInWorker } from "./parse-client";
+
+export * from "./cancel";
+export * from "./density";
+export * from "./export";
+export * from "./extract";
+export * from "./fingerprint";
+export * from "./image";
+export * from "./languages";
+export * from "./ocr-layout";
+export * from "./ocr-pool";
+export * from "./pages";
+export { OCR_TARGET_DPI, ocrRenderScale, preprocessCanvas } from "./preprocess";
+export { parsePagesInWorker } from "./parse-client";
+export * from "./progress";
+export * from "./templates";
+export * from "./validate";
+
+export interface ProcessStatementOptions extends ExtractPagesOptions {
+  parse?: TextItemParseOptions;
+}
+
+export interface ProcessedStatement {
+  pages: PageContent[];
+  parsed: ParsedStatement;
+}
+
+export const processStatement = async (
+  pdf: PdfDocument,
+  options: ProcessStatementOptions = {}
+): Promise<ProcessedStatement> => {
+  const pages = await extractPages(pdf, options);
+  throwIfAborted(options.signal);
+
+  const ocrPages = pages.filter(page => page.method === 'ocr').length;
+  options.onProgress?.({ stage: 'parse', pageCount: pages.length, pagesRead: pages.length, ocrPages, ocrDone: ocrPages });
+  const parsed = await parsePagesInWorker(
+    pages.map(pageInput),
+    {
+      ...options.parse,
+      pageMethods: pages.map(page => page.method),
+      pageNumbers: pages.map(page => page.pageNumber),
+      ocrReadings: pages.map(page => page.ocrReading?.items ?? null)
+    },
+    options.signal
+  );
+
+  return { pages, parsed };
+};
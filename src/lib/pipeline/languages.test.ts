@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { canDetectOcrLanguages, detectOcrLanguages, toLanguageList } from "./languages";
+
+const ENGLISH_PAGE = 'Statement of account for the period 01/04/2024 to 30/04/2024 '.repeat(10);
+
+describe('detectOcrLanguages', () => {
+  it('keeps English alone for a Latin page', () => {
+    expect(detectOcrLanguages(ENGLISH_PAGE)).toEqual(['eng']);
+  });
+
+  it('adds Hindi for Devanagari labels, or Marathi when ळ appears', () => {
+    expect(detectOcrLanguages(`${ENGLISH_PAGE} खाता विवरण दिनांक शेष राशि`)).toEqual(['eng', 'hin']);
+    expect(detectOcrLanguages(`${ENGLISH_PAGE} खाते उतारा शिल्लक तपशील मिळकत`)).toEqual(['eng', 'mar']);
+  });
+
+  it('ignores a stray regional word', () => {
+    expect(detectOcrLanguages(`${ENGLISH_PAGE} बैंक`)).toEqual(['eng']);
+  });
+});
+
+describe('canDetectOcrLanguages', () => {
+  it('needs a real text layer, not the odd word a scan carries', () => {
+    expect(canDetectOcrLanguages(ENGLISH_PAGE)).toBe(true);
+    expect(canDetectOcrLanguages('')).toBe(false);
+    expect(canDetectOcrLanguages('Page 1 of 3')).toBe(false);
+  });
+});
+
+describe('toLanguageList', () => {
+  it('splits Tesseract language strings', () => {
+    expect(toLanguageList('eng+hin')).toEqual(['eng', 'hin']);
+    expect(toLanguageList(['eng', ' tam '])).toEqual(['eng', 'tam']);
+  });
+});
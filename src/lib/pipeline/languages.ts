@@ -0,0 +1,87 @@
+import { createOcrPool } from "./ocr-pool";
+
+// OCR languages bundled with the app. Keep in step with TESSERACT_LANGUAGES
+// in vite.config.ts, which copies each one's traineddata into the build.
+export interface OcrLanguage {
+  code: string;
+  name: string;
+  // Characters of the language's script; absent for Latin
+  script?: RegExp;
+}
+
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: 'eng', name: 'English' },
+  { code: 'hin', name: 'Hindi', script: /[\u0900-\u097F]/g },
+  { code: 'mar', name: 'Marathi', script: /[\u0900-\u097F]/g },
+  { code: 'guj', name: 'Gujarati', script: /[\u0A80-\u0AFF]/g },
+  { code: 'pan', name: 'Punjabi', script: /[\u0A00-\u0A7F]/g },
+  { code: 'ben', name: 'Bengali', script: /[\u0980-\u09FF]/g },
+  { code: 'tam', name: 'Tamil', script: /[\u0B80-\u0BFF]/g },
+  { code: 'tel', name: 'Telugu', script: /[\u0C00-\u0C7F]/g },
+  { code: 'kan', name: 'Kannada', script: /[\u0C80-\u0CFF]/g },
+  { code: 'mal', name: 'Malayalam', script: /[\u0D00-\u0D7F]/g }
+];
+
+// Language setting that picks the languages from the scripts in the text layer
+export const AUTO_OCR_LANGUAGES = 'auto';
+
+// A script needs this many characters in the text layer to count; a stray
+// rupee sign or a single bilingual logo word is not a reason to load a model
+const MIN_SCRIPT_CHARACTERS = 10;
+// ळ is common in Marathi and all but absent from Hindi
+const MARATHI_MARKER = /ळ/;
+// Fewer letters than this (e.g. a scanned statement) say nothing about its scripts
+const MIN_DETECTION_LETTERS = 200;
+// Devanagari is the regional script statements use most, so a probe of a
+// scan reads with it alongside English
+const PROBE_OCR_LANGUAGES = ['eng', 'hin'];
+
+// "eng+hin" or ['eng', 'hin'] to a list of codes
+export const toLanguageList = (languages: string | string[]): string[] =>
+  (Array.isArray(languages) ? languages : languages.split('+')).map(code => code.trim()).filter(Boolean);
+
+export const languageNames = (languages: string[]): string =>
+  languages.map(code => OCR_LANGUAGES.find(language => language.code === code)?.name || code).join(', ');
+
+// English plus every regional script that shows up in the text. Bilingual
+// statements print their labels in both, so English always stays in.
+export const detectOcrLanguages = (text: string): string[] => {
+  const languages = ['eng'];
+  const scripts = new Set<string>();
+
+  for (const language of OCR_LANGUAGES) {
+    if (!language.script || scripts.has(language.script.source)) continue;
+    if ((text.match(language.script) || []).length < MIN_SCRIPT_CHARACTERS) continue;
+    scripts.add(language.script.source);
+    // Hindi and Marathi share Devanagari
+    languages.push(language.code === 'hin' && MARATHI_MARKER.test(text) ? 'mar' : language.code);
+  }
+
+  return languages;
+};
+
+// Whether there's enough text to pick languages from
+export const canDetectOcrLanguages = (text: string): boolean =>
+  (text.match(/\p{L}/gu) || []).length >= MIN_DETECTION_LETTERS;
+
+// Pick languages for an image with no text layer to go on, from a quick OCR
+// of it. Scripts other than Latin and Devanagari can't show up in the probe
+// without their models, so those still need choosing by hand.
+export const probeOcrLanguages = async (image: HTMLCanvasElement | OffscreenCanvas, signal?: AbortSignal): Promise<string[]> => {
+  const pool = await createOcrPool({ languages: PROBE_OCR_LANGUAGES, size: 1 });
+  try {
+    return detectOcrLanguages((await pool.recognize(image, { signal })).text);
+  } finally {
+    await pool.terminate();
+  }
+};
+
+// Choices for a language picker: English alone or alongside one regional language
+export const ocrLanguageChoices = (): { value: string; label: string }[] => [
+  { value: AUTO_OCR_LANGUAGES, label: 'Auto-detect' },
+  { value: 'eng', label: 'English' },
+  ...OCR_LANGUAGES.filter(language => language.code !== 'eng').map(language => ({
+    value: `eng+${language.code}`,
+    label: `English + ${language.name}`
+  }))
+];
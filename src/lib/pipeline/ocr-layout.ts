@@ -0,0 +1,65 @@
+import type { Block, Line } from "tesseract.js";
+import type { PdfTextItem } from "@/lib/statement";
+
+// A recognised word, in pixels of the image Tesseract read
+export interface OcrWord {
+  text: string;
+  // Tesseract's word confidence, 0–100
+  confidence: number;
+  x0: number;
+  x1: number;
+  // Baseline under the word and the height of its text line
+  baseline: number;
+  lineHeight: number;
+}
+
+// Where a line's baseline sits under a word. Following the baseline rather
+// than each word's box keeps "g" and "y" on the same line as their neighbours,
+// and follows any tilt left after deskewing.
+const baselineAt = (line: Line, x: number, fallback: number): number => {
+  const { baseline } = line;
+  if (!baseline || baseline.x1 <= baseline.x0) return fallback;
+  return baseline.y0 + (baseline.y1 - baseline.y0) * (x - baseline.x0) / (baseline.x1 - baseline.x0);
+};
+
+// Flatten Tesseract's block → paragraph → line → word tree
+export const collectOcrWords = (blocks: Block[] | null): OcrWord[] => {
+  const words: OcrWord[] = [];
+
+  for (const block of blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const lineHeight = line.rowAttributes?.rowHeight || line.bbox.y1 - line.bbox.y0;
+        for (const word of line.words) {
+          if (!word.text.trim()) continue;
+          const { x0, x1, y1 } = word.bbox;
+          words.push({
+            text: word.text,
+            confidence: word.confidence,
+            x0,
+            x1,
+            baseline: baselineAt(line, (x0 + x1) / 2, y1),
+            lineHeight
+          });
+        }
+      }
+    }
+  }
+
+  return words;
+};
+
+// Turn OCR words into pdf.js-shaped text items in PDF points (origin bottom
+// left, y up), so scanned pages go through the same line and column
+// reconstruction as digital ones. `scale` is pixels per point of the render.
+export const ocrWordsToItems = (words: OcrWord[], scale: number, pageHeight: number): PdfTextItem[] =>
+  words.map(word => {
+    const fontSize = word.lineHeight / scale;
+    return {
+      str: word.text,
+      transform: [fontSize, 0, 0, fontSize, word.x0 / scale, pageHeight - word.baseline / scale],
+      width: (word.x1 - word.x0) / scale,
+      height: fontSize,
+      confidence: word.confidence / 100
+    };
+  });
@@ -0,0 +1,95 @@
+import type { WorkerParams } from "tesseract.js";
+import { createOcrWorker, type OcrWorker } from "@/lib/libraries";
+import { abortable, throwIfAborted } from "./cancel";
+import { collectOcrWords, type OcrWord } from "./ocr-layout";
+
+// Every Tesseract worker holds its own WASM heap and traineddata, so the pool
+// stays small even on machines with many cores
+const MAX_OCR_WORKERS = 4;
+
+export interface OcrPoolOptions {
+  languages?: string | string[];
+  parameters?: Partial<WorkerParams>;
+  // Defaults to the spare cores, leaving one for the UI thread
+  size?: number;
+}
+
+export interface OcrRequest {
+  signal?: AbortSignal;
+  // Recognition progress of this image, 0–1
+  onProgress?: (progress: number) => void;
+}
+
+export interface OcrResult {
+  text: string;
+  // Tesseract's mean word confidence, 0–100
+  confidence: number;
+  // Every word with its position in the image
+  words: OcrWord[];
+}
+
+export interface OcrPool {
+  size: number;
+  recognize: (image: HTMLCanvasElement | OffscreenCanvas, request?: OcrRequest) => Promise<OcrResult>;
+  terminate: () => Promise<void>;
+}
+
+interface PoolSlot {
+  worker: OcrWorker;
+  onProgress: ((progress: number) => void) | null;
+}
+
+export const defaultOcrPoolSize = (): number =>
+  Math.max(1, Math.min(MAX_OCR_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+// Start a fixed set of Tesseract workers; images queue until one is free
+export const createOcrPool = async (options: OcrPoolOptions = {}): Promise<OcrPool> => {
+  const size = Math.max(1, options.size ?? defaultOcrPoolSize());
+
+  const slots = await Promise.all(
+    Array.from({ length: size }, async () => {
+      const slot: PoolSlot = { worker: null, onProgress: null };
+      slot.worker = await createOcrWorker(options.languages, {
+        logger: message => {
+          if (message.status === 'recognizing text') slot.onProgress?.(message.progress);
+        }
+      });
+      if (options.parameters) await slot.worker.setParameters(options.parameters);
+      return slot;
+    })
+  );
+
+  const idle = [...slots];
+  const waiting: ((slot: PoolSlot) => void)[] = [];
+
+  const acquire = (): Promise<PoolSlot> =>
+    idle.length > 0 ? Promise.resolve(idle.pop()) : new Promise(resolve => waiting.push(resolve));
+
+  const release = (slot: PoolSlot) => {
+    slot.onProgress = null;
+    const next = waiting.shift();
+    if (next) next(slot);
+    else idle.push(slot);
+  };
+
+  const recognize = async (image: HTMLCanvasElement | OffscreenCanvas, request: OcrRequest = {}) => {
+    const slot = await acquire();
+    try {
+      throwIfAborted(request.signal);
+      slot.onProgress = request.onProgress || null;
+      const { data } = await abortable(
+        slot.worker.recognize(image, {}, { text: true, blocks: true }),
+        request.signal
+      );
+      return { text: data.text, confidence: data.confidence, words: collectOcrWords(data.blocks) };
+    } finally {
+      release(slot);
+    }
+  };
+
+  const terminate = async () => {
+    await Promise.all(slots.map(slot => slot.worker.terminate()));
+  };
+
+  return { size, recognize, terminate };
+};
@@ -0,0 +1,60 @@
+import type { PageSources } from "@/lib/statement";
+import type { PageContent } from "./extract";
+import { languageNames } from "./languages";
+
+// "1-3, 7, 10-12" to page numbers, sorted and without duplicates. Pages past
+// the end of the document are dropped.
+export const parsePageRange = (input: string, pageCount = Infinity): number[] => {
+  const pages = new Set<number>();
+
+  input.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const match = part.match(/^(\d+)(?:\s*[-–]\s*(\d+))?$/);
+    if (!match) throw new Error(`"${part}" is not a page number or range`);
+
+    const from = parseInt(match[1], 10);
+    const to = match[2] ? parseInt(match[2], 10) : from;
+    if (from < 1 || to < from) throw new Error(`"${part}" is not a valid page range`);
+
+    for (let page = from; page <= Math.min(to, pageCount); page++) pages.add(page);
+  });
+
+  return [...pages].sort((a, b) => a - b);
+};
+
+// Page numbers back to compact ranges: [1, 2, 3, 7] -> "1–3, 7"
+export const formatPageList = (pages: number[]): string => {
+  const ranges: string[] = [];
+  let start = pages[0];
+
+  pages.forEach((page, index) => {
+    const next = pages[index + 1];
+    if (next === page + 1) return;
+    ranges.push(start === page ? `${page}` : `${start}–${page}`);
+    start = next;
+  });
+
+  return ranges.join(', ');
+};
+
+export const pageSources = (pages: PageContent[]): PageSources => {
+  const sources: PageSources = { text: [], ocr: [], empty: [] };
+  pages.forEach(page => {
+    if (!page.text.trim()) sources.empty.push(page.pageNumber);
+    else sources[page.method].push(page.pageNumber);
+    if (page.languages) sources.ocrLanguages = page.languages;
+  });
+  return sources;
+};
+
+// "Text layer: pages 1–12 · OCR (English, Hindi): pages 13–20"
+export const describePageSources = (sources: PageSources): string => {
+  const part = (label: string, pages: number[]) =>
+    `${label}: ${pages.length === 1 ? 'page' : 'pages'} ${formatPageList(pages)}`;
+  const ocrLabel = sources.ocrLanguages ? `OCR (${languageNames(sources.ocrLanguages)})` : 'OCR';
+
+  return [
+    sources.text.length > 0 && part('Text layer', sources.text),
+    sources.ocr.length > 0 && part(ocrLabel, sources.ocr),
+    sources.empty.length > 0 && part('No text found', sources.empty)
+  ].filter(Boolean).join(' · ');
+};
@@ -0,0 +1,19 @@
+import type { ParsedStatement, StatementPageInput, TextItemParseOptions } from "@/lib/statement";
+import { createWorkerClient } from "./worker-client";
+
+export interface ParseRequest {
+  pages: StatementPageInput[];
+  options: TextItemParseOptions;
+}
+
+const parser = createWorkerClient<ParseRequest, ParsedStatement>(
+  () => new Worker(new URL("./parse.worker.ts", import.meta.url), { type: 'module' }),
+  'statement parser'
+);
+
+// Parse pages in the background worker
+export const parsePagesInWorker = (
+  pages: StatementPageInput[],
+  options: TextItemParseOptions = {},
+  signal?: AbortSignal
+): Promise<ParsedStatement> => parser.request({ pages, options }, signal);
@@ -0,0 +1,8 @@
+// Runs the statement engine off the main thread. Line grouping, the profile
+// regexes and reconciliation are all synchronous, so on long statements they
+// would otherwise block rendering for seconds.
+import { parseStatementPages } from "@/lib/statement";
+import type { ParseRequest } from "./parse-client";
+import { serveWorkerRequests } from "./worker-client";
+
+serveWorkerRequests(({ pages, options }: ParseRequest) => parseStatementPages(pages, options));
@@ -0,0 +1,48 @@
+import type { PreprocessOptions } from "./image";
+import { createWorkerClient } from "./worker-client";
+
+// Tesseract is trained on text at about 300 DPI
+export const OCR_TARGET_DPI = 300;
+// Keeps one rendered page (RGBA plus the working copies) to a few hundred MB
+const MAX_OCR_PIXELS = 12_000_000;
+const PDF_POINTS_PER_INCH = 72;
+
+export interface PreprocessRequest {
+  width: number;
+  height: number;
+  rgba: Uint8ClampedArray;
+  options: PreprocessOptions;
+}
+
+export interface PreprocessResponse {
+  rgba: Uint8ClampedArray<ArrayBuffer>;
+  skew: number;
+}
+
+const preprocessor = createWorkerClient<PreprocessRequest, PreprocessResponse>(
+  () => new Worker(new URL("./preprocess.worker.ts", import.meta.url), { type: 'module' }),
+  'image preprocessor'
+);
+
+// Render scale that puts a page of this size (in PDF points) at the target DPI
+export const ocrRenderScale = (pageWidth: number, pageHeight: number): number => {
+  const scale = OCR_TARGET_DPI / PDF_POINTS_PER_INCH;
+  const pixels = pageWidth * pageHeight * scale * scale;
+  return pixels > MAX_OCR_PIXELS ? scale * Math.sqrt(MAX_OCR_PIXELS / pixels) : scale;
+};
+
+// Grayscale, denoise, binarise, deskew and strip grid lines in the
+// preprocessing worker, then draw the result back onto the canvas
+export const preprocessCanvas = async (
+  canvas: HTMLCanvasElement,
+  options: PreprocessOptions = {},
+  signal?: AbortSignal
+): Promise<number> => {
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  const { width, height } = canvas;
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const { rgba, skew } = await preprocessor.request({ width, height, rgba: data, options }, signal, [data.buffer]);
+  context.putImageData(new ImageData(rgba, width, height), 0, 0);
+  return skew;
+};
@@ -0,0 +1,13 @@
+// Cleans up rendered pages for OCR. A 300 DPI page is around nine million
+// pixels, far too much work for the UI thread.
+import { grayToRgba, preprocessImage, toGray } from "./image";
+import type { PreprocessRequest, PreprocessResponse } from "./preprocess";
+import { serveWorkerRequests } from "./worker-client";
+
+serveWorkerRequests<PreprocessRequest, PreprocessResponse>(
+  ({ width, height, rgba, options }) => {
+    const { image, skew } = preprocessImage(toGray(width, height, rgba), options);
+    return { rgba: grayToRgba(image), skew };
+  },
+  result => [result.rgba.buffer]
+);
@@ -0,0 +1,161 @@
+import type { PipelineProgress } from "./extract";
+
+// Progress of one file from reading it off disk to a finished export
+export type ConversionStage = 'load' | 'decrypt' | 'text' | 'ocr' | 'parse' | 'validate' | 'export' | 'done';
+
+export const CONVERSION_STAGES: { stage: Exclude<ConversionStage, 'done'>; label: string }[] = [
+  { stage: 'load', label: 'Load file' },
+  { stage: 'decrypt', label: 'Unlock PDF' },
+  { stage: 'text', label: 'Read text layer' },
+  { stage: 'ocr', label: 'OCR pages' },
+  { stage: 'parse', label: 'Parse transactions' },
+  { stage: 'validate', label: 'Validate balances' },
+  { stage: 'export', label: 'Build spreadsheet' }
+];
+
+export interface ConversionProgress {
+  stage: ConversionStage;
+  // Overall completion, 0–1; never moves backwards
+  fraction: number;
+  // Zero until the document is open
+  pageCount: number;
+  pagesRead: number;
+  ocrPages: number;
+  ocrDone: number;
+  // Page currently being read or recognised
+  pageNumber?: number;
+  encrypted: boolean;
+  elapsedMs: number;
+  // Null until there is enough progress to extrapolate from
+  etaMs: number | null;
+}
+
+export interface ProgressTracker {
+  // Move to a stage that has no finer progress of its own
+  stage: (stage: ConversionStage) => void;
+  // Feed page events from processStatement
+  pipeline: (event: PipelineProgress) => void;
+  current: () => ConversionProgress;
+}
+
+// Share of the overall bar each stage covers. Reading and OCR are one span
+// sized in page work, as that is where almost all of the time goes.
+const SPANS: Record<ConversionStage, [number, number]> = {
+  load: [0, 0.04],
+  decrypt: [0.04, 0.05],
+  text: [0.05, 0.85],
+  ocr: [0.05, 0.85],
+  parse: [0.85, 0.93],
+  validate: [0.93, 0.95],
+  export: [0.95, 1],
+  done: [1, 1]
+};
+// Recognising a page takes roughly this many times longer than reading its text layer
+const OCR_PAGE_COST = 20;
+// Extrapolating from the first moments gives wild estimates
+const ETA_MIN_ELAPSED_MS = 1500;
+const ETA_MIN_FRACTION = 0.05;
+
+export const createProgressTracker = (
+  onChange: (progress: ConversionProgress) => void,
+  now: () => number = Date.now
+): ProgressTracker => {
+  const startedAt = now();
+  // Recognition progress of pages that are still in an OCR worker
+  const inFlight = new Map<number, number>();
+  let state: ConversionProgress = {
+    stage: 'load',
+    fraction: 0,
+    pageCount: 0,
+    pagesRead: 0,
+    ocrPages: 0,
+    ocrDone: 0,
+    encrypted: false,
+    elapsedMs: 0,
+    etaMs: null
+  };
+
+  const pageWork = () => {
+    // While text layers are still being read, assume the rest of the document
+    // has the same share of scanned pages as the part read so far
+    const ocrPages = state.stage === 'text' && state.pagesRead > 0
+      ? state.ocrPages * state.pageCount / state.pagesRead
+      : state.ocrPages;
+    const total = state.pageCount + ocrPages * OCR_PAGE_COST;
+    if (total === 0) return 0;
+    let ocrWork = state.ocrDone;
+    inFlight.forEach(progress => { ocrWork += progress; });
+    return (state.pagesRead + ocrWork * OCR_PAGE_COST) / total;
+  };
+
+  const publish = (next: Partial<ConversionProgress>, within = 0) => {
+    const stage = next.stage ?? state.stage;
+    const [from, to] = SPANS[stage];
+    const elapsedMs = now() - startedAt;
+    const fraction = Math.max(state.fraction, from + (to - from) * Math.min(Math.max(within, 0), 1));
+    const etaMs = stage === 'done'
+      ? 0
+      : elapsedMs >= ETA_MIN_ELAPSED_MS && fraction >= ETA_MIN_FRACTION
+        ? Math.round(elapsedMs * (1 - fraction) / fraction)
+        : null;
+
+    state = { ...state, ...next, fraction, elapsedMs, etaMs };
+    onChange(state);
+  };
+
+  return {
+    stage: stage => {
+      if (stage === 'decrypt') publish({ stage, encrypted: true });
+      else publish({ stage, pageNumber: undefined });
+    },
+    pipeline: event => {
+      if (event.stage === 'ocr' && event.pageNumber !== undefined) {
+        if (event.pageProgress === 1) inFlight.delete(event.pageNumber);
+        else inFlight.set(event.pageNumber, event.pageProgress ?? 0);
+      }
+      const counts = {
+        pageCount: event.pageCount,
+        pagesRead: event.pagesRead,
+        ocrPages: event.ocrPages,
+        ocrDone: event.ocrDone
+      };
+      if (event.stage === 'parse') {
+        publish({ stage: 'parse', pageNumber: undefined, ...counts });
+        return;
+      }
+      state = { ...state, ...counts, stage: event.stage };
+      publish({ stage: event.stage, pageNumber: event.pageNumber }, pageWork());
+    },
+    current: () => state
+  };
+};
+
+// "45s", "3m 10s"
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m ${seconds % 60}s`;
+};
+
+// One-line description of what is happening right now
+export const describeProgress = (progress: ConversionProgress): string => {
+  switch (progress.stage) {
+    case 'load':
+      return 'Loading PDF';
+    case 'decrypt':
+      return 'Unlocking PDF';
+    case 'text':
+      return `Reading page ${progress.pageNumber ?? progress.pagesRead} of ${progress.pageCount}`;
+    case 'ocr':
+      return `Running OCR on page ${progress.pageNumber} (${progress.ocrDone} of ${progress.ocrPages} pages done)`;
+    case 'parse':
+      return 'Parsing transactions';
+    case 'validate':
+      return 'Checking balances and totals';
+    case 'export':
+      return 'Building spreadsheet';
+    default:
+      return 'Done';
+  }
+};
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseStatementPages, type ColumnTemplate } from "@/lib/statement";
+import { statementPage, type StatementLine } from "@/test/fixtures";
+import {
+  exportExtractionTemplates,
+  loadExtractionTemplates,
+  parseExtractionTemplates,
+  saveExtractionTemplates,
+  type ExtractionTemplate
+} from "./templates";
+
+const LINES: StatementLine[] = [
+  ['01/02/2024', 'UPI payment', '', '1,000.00', '7,000.00'],
+  ['02/02/2024', 'ATM withdrawal', '500.00', '', '6,500.00']
+];
+
+const detectedTemplate = (): ColumnTemplate => parseStatementPages([statementPage(LINES)]).columnTemplate;
+
+const savedTemplate = (columnTemplate: ColumnTemplate): ExtractionTemplate => ({
+  id: 'hdfc-savings',
+  name: 'HDFC savings',
+  fingerprint: { headerWords: ['hdfc', 'bank'], fonts: [], pageSize: [595, 842] },
+  columnTemplate,
+  profileId: null,
+  dateFormats: [],
+  amountFormat: { grouping: 'indian', decimalSeparator: '.' },
+  headerLocations: {},
+  updatedAt: '2024-02-01T00:00:00.000Z'
+});
+
+// Rows of a later page that doesn't repeat the header, read with the template alone
+const balancesReadWith = (columnTemplate: ColumnTemplate | null) =>
+  parseStatementPages([statementPage(LINES).filter(item => item.transform[5] < 700)], { columnTemplate })
+    .transactions.map(transaction => transaction.balance?.minor);
+
+describe('extraction template files', () => {
+  it('keeps the open outer column edges through an export and import', () => {
+    const template = detectedTemplate();
+    expect(template.columns[template.columns.length - 1].x1).toBe(Infinity);
+
+    const [imported] = parseExtractionTemplates(exportExtractionTemplates([savedTemplate(template)]));
+
+    expect(imported.columnTemplate).toEqual(template);
+    expect(balancesReadWith(imported.columnTemplate)).toEqual([700000, 650000]);
+  });
+
+  it('rejects a template with a missing edge between columns', () => {
+    const template = detectedTemplate();
+    const file = JSON.parse(exportExtractionTemplates([savedTemplate(template)]));
+    file.templates[0].columnTemplate.columns[1].x0 = null;
+
+    expect(() => parseExtractionTemplates(JSON.stringify(file))).toThrow('Template 1 (HDFC savings): column ranges are incomplete');
+  });
+});
+
+describe('saved extraction templates', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the open outer column edges through a save and reload', () => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+    const template = detectedTemplate();
+
+    saveExtractionTemplates([savedTemplate(template)]);
+    const [reloaded] = loadExtractionTemplates();
+
+    expect(reloaded.columnTemplate).toEqual(template);
+    expect(balancesReadWith(reloaded.columnTemplate)).toEqual([700000, 650000]);
+  });
+});
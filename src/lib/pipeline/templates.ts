@@ -0,0 +1,182 @@
+import {
+  compileBankProfile,
+  getBankProfile,
+  type AmountFormat,
+  type BankProfile,
+  type ColumnTemplate,
+  type HeaderLocations,
+  type TextItemParseOptions
+} from "@/lib/statement";
+import type { DocumentFingerprint } from "./fingerprint";
+
+// Everything needed to read one bank's statement layout without detection
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  fingerprint: DocumentFingerprint;
+  // Table region, column ranges and roles
+  columnTemplate: ColumnTemplate | null;
+  // Bank profile to parse with; null for the generic rules
+  profileId: string | null;
+  // Tokens: DD, D, MM, M, MMM, YYYY, YY; empty keeps the profile's own
+  dateFormats: string[];
+  amountFormat: AmountFormat;
+  headerLocations: HeaderLocations;
+  updatedAt: string;
+}
+
+// The shared JSON file: a marker so other JSON isn't imported by mistake
+interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  version: 1;
+  templates: ExtractionTemplate[];
+}
+
+const STORAGE_KEY = 'statement-extraction-templates';
+const TEMPLATE_FILE_FORMAT = 'statement-extraction-templates';
+// Page sizes differ by a point or two between PDF producers
+const PAGE_SIZE_TOLERANCE = 3;
+// Header words decide most of the match; fonts separate layouts of one bank
+const HEADER_WEIGHT = 0.7;
+export const MIN_TEMPLATE_SIMILARITY = 0.6;
+
+// JSON writes the open outer edges of a detected layout (±Infinity) as null;
+// reopen them. Null when an edge between two columns is missing.
+const restoreColumnEdges = (template: ColumnTemplate | null): ColumnTemplate | null => {
+  if (!template || !Array.isArray(template.columns)) return null;
+  const last = template.columns.length - 1;
+  const columns = template.columns.map((column, index) => ({
+    ...column,
+    x0: column.x0 ?? (index === 0 ? -Infinity : NaN),
+    x1: column.x1 ?? (index === last ? Infinity : NaN)
+  }));
+  return columns.every(column => column.x0 < column.x1) ? { ...template, columns } : null;
+};
+
+export const loadExtractionTemplates = (): ExtractionTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const templates: ExtractionTemplate[] = stored ? JSON.parse(stored) : [];
+    return templates.map(template => ({ ...template, columnTemplate: restoreColumnEdges(template.columnTemplate) }));
+  } catch (error) {
+    return [];
+  }
+};
+
+export const saveExtractionTemplates = (templates: ExtractionTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+// The first format without day, month and year tokens, e.g. "DD/MM" but not "DD/MM/YY"
+export const invalidDateFormat = (formats: string[]): string | undefined =>
+  formats.find(format => !/D/.test(format) || !/M/.test(format) || !/Y/.test(format));
+
+const jaccard = (a: string[], b: string[]): number => {
+  if (a.length === 0 && b.length === 0) return 0;
+  const right = new Set(b);
+  const shared = a.filter(value => right.has(value)).length;
+  return shared / (a.length + b.length - shared);
+};
+
+// 0–1; pages of a different size never match
+export const fingerprintSimilarity = (a: DocumentFingerprint, b: DocumentFingerprint): number => {
+  const sameSize = a.pageSize.every((size, index) => Math.abs(size - b.pageSize[index]) <= PAGE_SIZE_TOLERANCE);
+  if (!sameSize) return 0;
+
+  const words = jaccard(a.headerWords, b.headerWords);
+  if (a.fonts.length === 0 || b.fonts.length === 0) return words;
+  return words * HEADER_WEIGHT + jaccard(a.fonts, b.fonts) * (1 - HEADER_WEIGHT);
+};
+
+// The closest saved template, if it is close enough
+export const findMatchingTemplate = (
+  fingerprint: DocumentFingerprint,
+  templates: ExtractionTemplate[]
+): ExtractionTemplate | null => {
+  let best: ExtractionTemplate | null = null;
+  let bestScore = MIN_TEMPLATE_SIMILARITY;
+  for (const template of templates) {
+    const score = fingerprintSimilarity(fingerprint, template.fingerprint);
+    if (score >= bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// The template's profile with its date and amount formats swapped in.
+// Undefined leaves profile detection to the parser.
+const templateProfile = (template: ExtractionTemplate): BankProfile | undefined => {
+  const base = template.profileId ? getBankProfile(template.profileId) : null;
+  if (!base && template.dateFormats.length === 0) return undefined;
+
+  const definition = base?.definition ?? {
+    id: `template-${template.id}`,
+    name: template.name,
+    version: '1.0.0',
+    detection: { keywords: [] },
+    dateFormats: []
+  };
+  return compileBankProfile({
+    ...definition,
+    dateFormats: template.dateFormats.length > 0 ? template.dateFormats : definition.dateFormats,
+    amountFormat: template.amountFormat
+  });
+};
+
+// Parse options that read a document the way the template describes
+export const templateParseOptions = (template: ExtractionTemplate): TextItemParseOptions => {
+  const profile = templateProfile(template);
+  return {
+    ...(profile && { profile }),
+    columnTemplate: template.columnTemplate,
+    headerLocations: template.headerLocations
+  };
+};
+
+export const exportExtractionTemplates = (templates: ExtractionTemplate[]): string =>
+  JSON.stringify({ format: TEMPLATE_FILE_FORMAT, version: 1, templates } satisfies TemplateFile, null, 2);
+
+// Read a shared template file; throws with a readable reason when it isn't one
+export const parseExtractionTemplates = (json: string): ExtractionTemplate[] => {
+  let file: TemplateFile;
+  try {
+    file = JSON.parse(json);
+  } catch (error) {
+    throw new Error('The file is not valid JSON');
+  }
+  if (file?.format !== TEMPLATE_FILE_FORMAT || !Array.isArray(file.templates)) {
+    throw new Error('The file is not an extraction template export');
+  }
+
+  return file.templates.map((template, index) => {
+    const invalid = (reason: string) => new Error(`Template ${index + 1} (${template?.name || 'unnamed'}): ${reason}`);
+    if (!template?.id || !template.name) throw invalid('missing id or name');
+    if (!Array.isArray(template.fingerprint?.headerWords) || !Array.isArray(template.fingerprint?.pageSize)) {
+      throw invalid('missing document fingerprint');
+    }
+    const badFormat = invalidDateFormat(template.dateFormats || []);
+    if (badFormat) throw invalid(`date format "${badFormat}" needs day, month and year`);
+    const columnTemplate = restoreColumnEdges(template.columnTemplate ?? null);
+    if (template.columnTemplate && !columnTemplate) throw invalid('column ranges are incomplete');
+    return {
+      ...template,
+      fingerprint: { ...template.fingerprint, fonts: template.fingerprint.fonts || [] },
+      columnTemplate,
+      profileId: template.profileId ?? null,
+      dateFormats: template.dateFormats || [],
+      amountFormat: template.amountFormat || { grouping: 'indian', decimalSeparator: '.' },
+      headerLocations: template.headerLocations || {}
+    };
+  });
+};
+
+// Imported templates replace saved ones with the same id
+export const mergeExtractionTemplates = (
+  saved: ExtractionTemplate[],
+  imported: ExtractionTemplate[]
+): ExtractionTemplate[] => {
+  const ids = new Set(imported.map(template => template.id));
+  return [...saved.filter(template => !ids.has(template.id)), ...imported];
+};
@@ -0,0 +1,30 @@
+import { absMoney, formatMoney, type ParsedStatement } from "@/lib/statement";
+
+// Plain-language problems worth showing before someone relies on the export
+export const statementWarnings = (parsed: ParsedStatement): string[] => {
+  const warnings: string[] = [];
+  const { transactions, reconciliation, summaryChecks } = parsed;
+
+  if (transactions.length === 0) {
+    warnings.push('No transactions were found in this statement');
+    return warnings;
+  }
+
+  const badDates = transactions.filter(t => t.dateError).length;
+  if (badDates > 0) {
+    warnings.push(`${badDates} row(s) have a date that could not be read`);
+  }
+
+  const mismatched = reconciliation.checkedCount - reconciliation.matchedCount;
+  if (mismatched > 0) {
+    warnings.push(`${mismatched} of ${reconciliation.checkedCount} running balances do not match`);
+  }
+
+  summaryChecks
+    .filter(check => !check.passed)
+    .forEach(check => {
+      warnings.push(`${check.label} is off by ${formatMoney(absMoney(check.difference))} against the statement summary`);
+    });
+
+  return warnings;
+};
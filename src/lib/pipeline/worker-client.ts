@@ -0,0 +1,102 @@
+import { abortError } from "./cancel";
+
+// Request/response protocol shared by the pipeline's dedicated workers
+export interface WorkerRequest<T> {
+  id: number;
+  payload: T;
+}
+
+export type WorkerResponse<T> =
+  | { id: number; result: T; error?: undefined }
+  | { id: number; error: string; result?: undefined };
+
+export interface WorkerClient<Req, Res> {
+  // Cancelling rejects straight away; the worker is only restarted when no
+  // other request is waiting on it
+  request: (payload: Req, signal?: AbortSignal, transfer?: Transferable[]) => Promise<Res>;
+}
+
+interface PendingRequest<Res> {
+  resolve: (result: Res) => void;
+  reject: (error: unknown) => void;
+}
+
+// One long-lived worker per client, started on first use; requests are
+// answered in the order they were sent
+export const createWorkerClient = <Req, Res>(create: () => Worker, name: string): WorkerClient<Req, Res> => {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, PendingRequest<Res>>();
+
+  const stopWorker = (error: unknown) => {
+    worker?.terminate();
+    worker = null;
+    pending.forEach(job => job.reject(error));
+    pending.clear();
+  };
+
+  const getWorker = (): Worker => {
+    if (worker) return worker;
+
+    worker = create();
+    worker.onmessage = (event: MessageEvent<WorkerResponse<Res>>) => {
+      const response = event.data;
+      const job = pending.get(response.id);
+      if (!job) return;
+      pending.delete(response.id);
+      if (response.error !== undefined) job.reject(new Error(response.error));
+      else job.resolve(response.result);
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      stopWorker(new Error(event.message || `The ${name} stopped unexpectedly`));
+    };
+    return worker;
+  };
+
+  const request = (payload: Req, signal?: AbortSignal, transfer: Transferable[] = []) =>
+    new Promise<Res>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const id = ++nextId;
+      const onAbort = () => {
+        pending.delete(id);
+        if (pending.size === 0) stopWorker(abortError());
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      pending.set(id, {
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      });
+      getWorker().postMessage({ id, payload } satisfies WorkerRequest<Req>, transfer);
+    });
+
+  return { request };
+};
+
+// Worker side: answer each request with the handler's result
+export const serveWorkerRequests = <Req, Res>(
+  handler: (payload: Req) => Res,
+  transfer: (result: Res) => Transferable[] = () => []
+) => {
+  self.onmessage = (event: MessageEvent<WorkerRequest<Req>>) => {
+    const { id, payload } = event.data;
+    try {
+      const result = handler(payload);
+      self.postMessage({ id, result } satisfies WorkerResponse<Res>, { transfer: transfer(result) });
+    } catch (error) {
+      self.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies WorkerResponse<Res>);
+    }
+  };
+};
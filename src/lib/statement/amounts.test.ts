@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { parseAmount, parseDrCr, signedBalance, tokenizeAmounts } from "./amounts";
+
+const minorUnits = (text: string, options = {}) => tokenizeAmounts(text, options).map(token => token.value.minor);
+
+describe('tokenizeAmounts', () => {
+  it.each([
+    ['1,234.56', 123456],
+    ['1,00,000.00', 10000000],
+    ['₹ 500.00', 50000],
+    ['Rs.75.5', 7550],
+    ['(250.00)', -25000],
+    ['-1,000.00', -100000],
+    ['1,000.00-', -100000]
+  ])('reads %s', (text, minor) => {
+    expect(minorUnits(text)).toEqual([minor]);
+  });
+
+  it('reads a statement line left to right', () => {
+    expect(minorUnits('01/02/2024 NEFT-HDFC0001 UPI/4123 1,000.00 25,430.10 Cr')).toEqual([100000, 2543010]);
+  });
+
+  it('keeps dates, times and reference numbers out', () => {
+    expect(minorUnits('01/02/2024 10:45 Chq 123456 ref 1,2,3')).toEqual([]);
+  });
+
+  it('takes bare whole numbers only when asked', () => {
+    expect(minorUnits('ATM 500')).toEqual([]);
+    expect(minorUnits('ATM 500', { wholeNumbers: true })).toEqual([50000]);
+    expect(minorUnits('Chq 123456', { wholeNumbers: true })).toEqual([]);
+  });
+
+  it('honours a profile decimal comma', () => {
+    expect(minorUnits('1.234,56', { decimalSeparator: ',' })).toEqual([123456]);
+    expect(minorUnits('12,50')).toEqual([1250]);
+  });
+
+  it('picks up Dr/Cr suffixes', () => {
+    const [token] = tokenizeAmounts('2,500.00 Dr');
+    expect(token.hint).toBe('debit');
+    expect(signedBalance(token).minor).toBe(-250000);
+  });
+});
+
+describe('parseAmount', () => {
+  it('accepts a bare cell and rejects text', () => {
+    expect(parseAmount(' 750 ')?.value.minor).toBe(75000);
+    expect(parseAmount('Balance')).toBeNull();
+  });
+});
+
+describe('parseDrCr', () => {
+  it.each([
+    ['Cr', 'credit'],
+    ['CR.', 'credit'],
+    ['+', 'credit'],
+    ['Debit', 'debit'],
+    ['D', 'debit'],
+    ['total', undefined]
+  ])('reads %s', (text, type) => {
+    expect(parseDrCr(text)).toBe(type);
+  });
+});
@@ -0,0 +1,124 @@
+import { DEFAULT_CURRENCY, moneyFromDigits, negateMoney, type Money } from "./money";
+import type { TransactionType } from "./types";
+
+export interface AmountToken {
+  // Signed: parenthesised and minus amounts are negative
+  value: Money;
+  // Debit/credit as printed next to the amount (Dr/Cr), if at all
+  hint?: TransactionType;
+  hasDecimals: boolean;
+  text: string;
+  index: number;
+}
+
+export interface AmountParseOptions {
+  // Known from the bank profile; guessed per amount when missing
+  decimalSeparator?: '.' | ',';
+  // Accept bare integers such as "500" that carry no grouping, currency or Dr/Cr
+  wholeNumbers?: boolean;
+  currency?: string;
+}
+
+const CURRENCY = '(?:INR|Rs\\.?|₹)';
+
+// Candidate amounts; the digits are checked for valid grouping afterwards.
+// Neighbouring word characters, slashes and colons keep dates, times and
+// reference numbers out.
+const AMOUNT_CANDIDATE = new RegExp(
+  `(?<![\\w.,/:-])(?:(${CURRENCY})\\s*)?(\\()?(-\\s*)?(?:(${CURRENCY})\\s*)?` +
+    '(\\d(?:[\\d,.]*\\d)?)(\\))?(-(?!\\w))?(?:\\s*(Cr|Dr)\\b\\.?)?(?![\\w/]|[.,:-]\\d)',
+  'gi'
+);
+
+const DR_CR = /^(?:(cr|credit|c|\+)|(dr|debit|d|-))\.?$/i;
+
+// Read a Dr/Cr column or suffix: "Cr", "CR.", "C", "Credit", "+" and their debit forms
+export const parseDrCr = (text: string | undefined): TransactionType | undefined => {
+  const match = text?.trim().match(DR_CR);
+  if (!match) return undefined;
+  return match[1] ? 'credit' : 'debit';
+};
+
+// Split digits into integer and fraction, or null when the grouping is not a
+// real amount (e.g. "1,2,3" or "12.345.6")
+const readDigits = (
+  digits: string,
+  decimalSeparator: '.' | ',' | undefined
+): { integer: string; fraction: string; grouped: boolean } | null => {
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+
+  let decimal: '.' | ',' | null = null;
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimal = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const single = digits.indexOf(separator) === digits.lastIndexOf(separator);
+    const tailLength = digits.length - digits.lastIndexOf(separator) - 1;
+    if (decimalSeparator) {
+      decimal = separator === decimalSeparator ? separator : null;
+    } else if (single && tailLength <= 2) {
+      // 12,50 is European decimals; 1,250 and 1,00,000 are grouping
+      decimal = separator;
+    }
+  }
+  if (decimalSeparator && decimal && decimal !== decimalSeparator) return null;
+
+  const cut = decimal ? digits.lastIndexOf(decimal) : digits.length;
+  const integerPart = digits.slice(0, cut);
+  const fraction = decimal ? digits.slice(cut + 1) : '';
+  if (decimal && (fraction.length === 0 || fraction.length > 2)) return null;
+
+  const decimalChar = decimalSeparator || decimal || (lastComma !== -1 ? '.' : ',');
+  const group = decimalChar === ',' ? '.' : ',';
+  if (/^\d+$/.test(integerPart)) return { integer: integerPart, fraction, grouped: false };
+
+  // Indian (1,00,000) and international (100,000) grouping, last group always three digits
+  const escaped = group === '.' ? '\\.' : ',';
+  const grouping = new RegExp(`^\\d{1,3}(?:${escaped}\\d{2,3})*${escaped}\\d{3}$`);
+  if (!grouping.test(integerPart)) return null;
+  return { integer: integerPart.split(group).join(''), fraction, grouped: true };
+};
+
+const toToken = (match: RegExpMatchArray, options: AmountParseOptions): AmountToken | null => {
+  const [text, prefix, open, minus, innerPrefix, digits, close, trailingMinus, drCr] = match;
+  const parts = readDigits(digits, options.decimalSeparator);
+  if (!parts) return null;
+
+  const hasDecimals = parts.fraction.length > 0;
+  const parenthesised = Boolean(open && close);
+  const marked = Boolean(prefix || innerPrefix || drCr || minus || trailingMinus || parenthesised);
+  if (!hasDecimals && !parts.grouped && !marked) {
+    // Six or more bare digits are cheque and reference numbers, never amounts
+    if (!options.wholeNumbers || parts.integer.length > 5) return null;
+  }
+  // An unbalanced bracket belongs to the surrounding text
+  if (Boolean(open) !== Boolean(close)) return null;
+
+  const negative = parenthesised || Boolean(minus) || Boolean(trailingMinus);
+  return {
+    value: moneyFromDigits(parts.integer, parts.fraction, negative, options.currency || DEFAULT_CURRENCY),
+    hint: parseDrCr(drCr),
+    hasDecimals,
+    text,
+    index: match.index ?? 0
+  };
+};
+
+// Every amount in a line of statement text, in reading order
+export const tokenizeAmounts = (text: string, options: AmountParseOptions = {}): AmountToken[] => {
+  const tokens: AmountToken[] = [];
+  for (const match of text.matchAll(AMOUNT_CANDIDATE)) {
+    const token = toToken(match, options);
+    if (token) tokens.push(token);
+  }
+  return tokens;
+};
+
+// Balances printed with Dr are overdrawn
+export const signedBalance = (token: AmountToken): Money =>
+  token.hint === 'debit' && token.value.minor > 0 ? negateMoney(token.value) : token.value;
+
+// A single table cell; bare whole rupees are accepted since the column says it's an amount
+export const parseAmount = (text: string, options: AmountParseOptions = {}): AmountToken | null =>
+  tokenizeAmounts(text.trim(), { wholeNumbers: true, ...options })[0] || null;
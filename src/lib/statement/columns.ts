@@ -0,0 +1,363 @@
+import { parseAmount, signedBalance } from "./amounts";
+import { isDateText } from "./dates";
+import { boundingBox, itemX0, itemX1, mergeBoxes } from "./lines";
+import { absMoney, type Money } from "./money";
+import type { BankProfile, ColumnRole } from "./profiles/types";
+import {
+  MAX_CONTINUATION_LINES,
+  amountOptions,
+  appendParticulars,
+  determineTransactionType,
+  extractReference,
+  isNarrationText
+} from "./transactions";
+import type {
+  ColumnTemplate,
+  ExtractedTransaction,
+  PdfTextItem,
+  TableRegion,
+  TemplateColumn,
+  TransactionField
+} from "./types";
+
+// Order matters: "Withdrawal Amt." is a debit column, not a generic amount
+const GENERIC_ROLE_PATTERNS: [ColumnRole, RegExp][] = [
+  ['valueDate', /value\s*(?:date|dt)/i],
+  ['date', /date|\bdt\b/i],
+  ['balance', /balance|\bbal\b/i],
+  ['drCr', /^(?:dr\s*\/\s*cr|cr\s*\/\s*dr)$/i],
+  ['debit', /withdrawal|debit|\bdr\b/i],
+  ['credit', /deposit|credit|\bcr\b/i],
+  ['reference', /chq|cheque|\bref/i],
+  ['description', /narration|particulars|description|remarks|details/i],
+  ['amount', /amount|\bamt\b/i]
+];
+
+const normalizeLabel = (label: string): string => label.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const classifyLabel = (label: string, profile: BankProfile | null): ColumnRole | null => {
+  const normalized = normalizeLabel(label);
+  const profileColumn = profile?.columns.find(column =>
+    column.labels.some(candidate => normalizeLabel(candidate) === normalized)
+  );
+  if (profileColumn) return profileColumn.role;
+
+  const generic = GENERIC_ROLE_PATTERNS.find(([, pattern]) => pattern.test(label));
+  return generic ? generic[0] : null;
+};
+
+// Turn one line into header cells, joining fragments of split labels
+// such as "Withdrawal" + "Amt." or "Closing" + "Balance"
+const buildHeaderCells = (line: PdfTextItem[], profile: BankProfile | null): TemplateColumn[] => {
+  const cells: TemplateColumn[] = [];
+
+  for (const item of line) {
+    const role = classifyLabel(item.str, profile);
+    const previous = cells[cells.length - 1];
+    const fontSize = Math.abs(item.transform[3]) || item.height || 10;
+    // Words of one label sit about a space apart; columns are further apart
+    const isAdjacent = previous && itemX0(item) - previous.x1 < fontSize * 0.6;
+    const isFragment = previous && (
+      role === null || previous.role === null || role === previous.role || role === 'amount'
+    );
+
+    if (isAdjacent && isFragment) {
+      previous.label = `${previous.label} ${item.str.trim()}`;
+      previous.x1 = Math.max(previous.x1, itemX1(item));
+      previous.role = classifyLabel(previous.label, profile);
+    } else {
+      cells.push({ role, label: item.str.trim(), x0: itemX0(item), x1: itemX1(item) });
+    }
+  }
+
+  return cells;
+};
+
+const isHeaderRow = (cells: TemplateColumn[]): boolean => {
+  const roles = new Set(cells.map(cell => cell.role));
+  return (
+    roles.has('date') &&
+    roles.has('balance') &&
+    (roles.has('debit') || roles.has('credit') || roles.has('amount'))
+  );
+};
+
+// Stretch header cells into contiguous x-ranges split halfway between neighbours
+const toTemplate = (cells: TemplateColumn[]): ColumnTemplate => {
+  const columns = cells.map((cell, index) => ({
+    ...cell,
+    x0: index === 0 ? -Infinity : (cells[index - 1].x1 + cell.x0) / 2,
+    x1: index === cells.length - 1 ? Infinity : (cell.x1 + cells[index + 1].x0) / 2
+  }));
+
+  return { columns, columnNames: columns.map(column => column.label) };
+};
+
+const findHeaderRow = (lines: PdfTextItem[][], profile: BankProfile | null) => {
+  for (let index = 0; index < lines.length; index++) {
+    const cells = buildHeaderCells(lines[index], profile);
+    if (isHeaderRow(cells)) return { index, cells };
+  }
+  return null;
+};
+
+// Find the "Date ... Withdrawal ... Deposit ... Balance" row and derive column ranges from it
+export const detectColumnTemplate = (lines: PdfTextItem[][], profile: BankProfile | null = null): ColumnTemplate | null => {
+  const header = findHeaderRow(lines, profile);
+  return header ? toTemplate(header.cells) : null;
+};
+
+// The column containing the item's horizontal centre, or -1
+const columnIndex = (item: PdfTextItem, template: ColumnTemplate): number => {
+  const center = (itemX0(item) + itemX1(item)) / 2;
+  return template.columns.findIndex(column => center >= column.x0 && center < column.x1);
+};
+
+// Place each item in the column containing its horizontal centre
+export const assignCells = (line: PdfTextItem[], template: ColumnTemplate): string[] => {
+  const cells = template.columns.map(() => '');
+
+  for (const item of line) {
+    const index = columnIndex(item, template);
+    if (index === -1) continue;
+    cells[index] = cells[index] ? `${cells[index]} ${item.str.trim()}` : item.str.trim();
+  }
+
+  return cells;
+};
+
+// OCR confidence of each cell: the mean of its words weighted by length.
+// Undefined for cells without OCR words (text layer pages).
+export const assignCellConfidence = (line: PdfTextItem[], template: ColumnTemplate): (number | undefined)[] => {
+  const weights = template.columns.map(() => 0);
+  const totals = template.columns.map(() => 0);
+
+  for (const item of line) {
+    const index = columnIndex(item, template);
+    if (index === -1 || item.confidence === undefined) continue;
+    const weight = item.str.trim().length;
+    weights[index] += weight;
+    totals[index] += item.confidence * weight;
+  }
+
+  return weights.map((weight, index) => (weight > 0 ? totals[index] / weight : undefined));
+};
+
+// Box around each cell's items; undefined for empty cells
+export const assignCellBounds = (line: PdfTextItem[], template: ColumnTemplate): (TableRegion | undefined)[] => {
+  const cells = template.columns.map((): PdfTextItem[] => []);
+
+  for (const item of line) {
+    const index = columnIndex(item, template);
+    if (index !== -1) cells[index].push(item);
+  }
+
+  return cells.map(boundingBox);
+};
+
+const roleColumn = (template: ColumnTemplate, role: ColumnRole): number =>
+  template.columns.findIndex(column => column.role === role);
+
+// Drop fields without a value; null when nothing is left
+export const definedFields = <T>(fields: Partial<Record<TransactionField, T>>): Partial<Record<TransactionField, T>> | null => {
+  const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : null;
+};
+
+const cellTransaction = (
+  cells: string[],
+  confidences: (number | undefined)[],
+  bounds: (TableRegion | undefined)[],
+  template: ColumnTemplate,
+  lineText: string,
+  profile: BankProfile | null
+): ExtractedTransaction | null => {
+  const cell = (role: ColumnRole): string => {
+    const index = roleColumn(template, role);
+    return index === -1 ? '' : cells[index];
+  };
+  const cellConfidence = (role: ColumnRole): number | undefined => {
+    const index = roleColumn(template, role);
+    return index === -1 ? undefined : confidences[index];
+  };
+  const cellBounds = (role: ColumnRole): TableRegion | undefined => {
+    const index = roleColumn(template, role);
+    return index === -1 ? undefined : bounds[index];
+  };
+
+  const dateText = cell('date') || cell('valueDate');
+  if (!isDateText(dateText)) return null;
+
+  const description = cell('description');
+  const options = amountOptions(profile);
+  const debit = parseAmount(cell('debit'), options);
+  const credit = parseAmount(cell('credit'), options);
+  const single = parseAmount(cell('amount'), options);
+  const balance = parseAmount(cell('balance'), options);
+
+  let amount: Money;
+  let amountRole: ColumnRole;
+  let type: ExtractedTransaction['type'];
+  if (debit && debit.value.minor !== 0) {
+    amount = absMoney(debit.value);
+    amountRole = 'debit';
+    type = 'debit';
+  } else if (credit && credit.value.minor !== 0) {
+    amount = absMoney(credit.value);
+    amountRole = 'credit';
+    type = 'credit';
+  } else if (single && single.value.minor !== 0) {
+    amount = absMoney(single.value);
+    amountRole = 'amount';
+    // Signed single-column amounts: negative is a withdrawal
+    const indicator = cell('drCr') || single.hint || (single.value.minor < 0 ? 'debit' : undefined);
+    type = determineTransactionType(indicator, description, profile);
+  } else {
+    return null;
+  }
+
+  const dateRole = cell('date') ? 'date' : 'valueDate';
+  const fieldConfidence = definedFields({
+    date: cellConfidence(dateRole),
+    description: cellConfidence('description'),
+    amount: cellConfidence(amountRole),
+    balance: balance ? cellConfidence('balance') : undefined,
+    reference: cellConfidence('reference')
+  });
+  const fieldBounds = definedFields({
+    date: cellBounds(dateRole),
+    description: cellBounds('description'),
+    amount: cellBounds(amountRole),
+    balance: balance ? cellBounds('balance') : undefined,
+    reference: cellBounds('reference')
+  });
+
+  return {
+    date: dateText,
+    rawDate: dateText,
+    description,
+    amount,
+    type,
+    balance: balance ? signedBalance(balance) : undefined,
+    reference: cell('reference') || extractReference(lineText, profile),
+    confidence: 0.9,
+    ...(fieldConfidence && { fieldConfidence }),
+    ...(fieldBounds && { fieldBounds })
+  };
+};
+
+// A field built from several lines is only as sure as its weakest reading
+const lowerFieldConfidence = (transaction: ExtractedTransaction, field: TransactionField, value: number | undefined) => {
+  if (value === undefined) return;
+  const current = transaction.fieldConfidence?.[field];
+  transaction.fieldConfidence = {
+    ...transaction.fieldConfidence,
+    [field]: current === undefined ? value : Math.min(current, value)
+  };
+};
+
+// Wrapped lines grow the field's box downwards
+const extendFieldBounds = (transaction: ExtractedTransaction, field: TransactionField, box: TableRegion | undefined) => {
+  if (!box) return;
+  transaction.fieldBounds = { ...transaction.fieldBounds, [field]: mergeBoxes(transaction.fieldBounds?.[field], box) };
+};
+
+const lineHeight = (line: PdfTextItem[]): number =>
+  Math.max(...line.map(item => Math.abs(item.transform[3]) || item.height || 10)) * 1.2;
+
+// A wrapped narration line only fills the narration (and reference) cells
+const continuationCells = (cells: string[], template: ColumnTemplate): { description: string; reference: string } | null => {
+  let description = '';
+  let reference = '';
+
+  for (let index = 0; index < cells.length; index++) {
+    if (!cells[index]) continue;
+    const role = template.columns[index].role;
+    if (role === 'description') description = cells[index];
+    else if (role === 'reference') reference = cells[index];
+    else return null;
+  }
+
+  return description || reference ? { description, reference } : null;
+};
+
+export interface ColumnExtractOptions {
+  // Attach wrapped narration lines to the transaction above them
+  mergeParticulars?: boolean;
+}
+
+// Keep the items whose centre and baseline fall inside the region
+export const clipToRegion = (lines: PdfTextItem[][], region: TableRegion): PdfTextItem[][] =>
+  lines
+    .map(line => line.filter(item => {
+      const center = (itemX0(item) + itemX1(item)) / 2;
+      const y = item.transform[5];
+      return center >= region.x0 && center <= region.x1 && y >= region.y0 && y <= region.y1;
+    }))
+    .filter(line => line.length > 0);
+
+// Read transactions from positioned lines. Rows above a header row on this
+// page (and repeated header rows) are skipped, as is anything outside the
+// template's region.
+export const extractColumnTransactions = (
+  lines: PdfTextItem[][],
+  template: ColumnTemplate,
+  profile: BankProfile | null = null,
+  options: ColumnExtractOptions = {}
+): ExtractedTransaction[] => {
+  const mergeParticulars = options.mergeParticulars ?? true;
+  const tableLines = template.region ? clipToRegion(lines, template.region) : lines;
+  const header = findHeaderRow(tableLines, profile);
+  const bodyLines = header ? tableLines.slice(header.index + 1) : tableLines;
+  const transactions: ExtractedTransaction[] = [];
+  let previous: ExtractedTransaction | null = null;
+  let previousY = 0;
+  let continuationCount = 0;
+
+  for (const line of bodyLines) {
+    const cells = assignCells(line, template);
+    const confidences = assignCellConfidence(line, template);
+    const bounds = assignCellBounds(line, template);
+    const lineText = line.map(item => item.str).join(' ');
+    const lineY = line[0].transform[5];
+    const transaction = cellTransaction(cells, confidences, bounds, template, lineText, profile);
+
+    if (transaction) {
+      transactions.push(transaction);
+      previous = transaction;
+      previousY = lineY;
+      continuationCount = 0;
+      continue;
+    }
+
+    // Merge when the line sits right under the row and only fills narration cells
+    const continuation = continuationCells(cells, template);
+    const isNear = previousY - lineY <= lineHeight(line) * 2;
+    if (
+      mergeParticulars &&
+      previous &&
+      continuation &&
+      isNear &&
+      continuationCount < MAX_CONTINUATION_LINES &&
+      isNarrationText(continuation.description || continuation.reference)
+    ) {
+      if (continuation.description) {
+        appendParticulars(previous, continuation.description);
+        lowerFieldConfidence(previous, 'description', confidences[roleColumn(template, 'description')]);
+        extendFieldBounds(previous, 'description', bounds[roleColumn(template, 'description')]);
+      }
+      // Long reference numbers wrap mid-token, so join without a space
+      if (continuation.reference) {
+        previous.reference = `${previous.reference || ''}${continuation.reference}`;
+        lowerFieldConfidence(previous, 'reference', confidences[roleColumn(template, 'reference')]);
+        extendFieldBounds(previous, 'reference', bounds[roleColumn(template, 'reference')]);
+      }
+      previousY = lineY;
+      continuationCount++;
+    } else {
+      previous = null;
+    }
+  }
+
+  return transactions;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { inferDateOrder, parseStatementDate, resolveTransactionDates } from "./dates";
+import { row } from "@/test/fixtures";
+
+describe('parseStatementDate', () => {
+  it.each([
+    ['01/02/2024', '2024-02-01'],
+    ['1-2-24', '2024-02-01'],
+    ['2024-02-01', '2024-02-01'],
+    ['01 Feb 2024', '2024-02-01'],
+    ['01-FEB-24', '2024-02-01'],
+    ['Feb 1st, 2024', '2024-02-01'],
+    ['29 Feb 2024', '2024-02-29'],
+    ['15 Sept 99', '1999-09-15']
+  ])('reads %s as %s', (input, expected) => {
+    expect(parseStatementDate(input)).toEqual({ ok: true, value: expected });
+  });
+
+  it('reads month-first dates when told to', () => {
+    expect(parseStatementDate('02/13/2024', { order: 'MDY' })).toEqual({ ok: true, value: '2024-02-13' });
+  });
+
+  it.each([
+    ['31/02/2024', 'invalid'],
+    ['29 Feb 2023', 'invalid'],
+    ['01/13/2024', 'invalid'],
+    ['yesterday', 'unrecognized']
+  ])('rejects %s as %s', (input, code) => {
+    const result = parseStatementDate(input);
+    expect(result.ok).toBe(false);
+    if (result.ok === false) expect(result.error.code).toBe(code);
+  });
+});
+
+describe('inferDateOrder', () => {
+  it('takes a first field above 12 as day-first', () => {
+    expect(inferDateOrder(['02/03/2024', '25/03/2024'], 'MDY')).toBe('DMY');
+  });
+
+  it('takes a second field above 12 as month-first', () => {
+    expect(inferDateOrder(['03/02/2024', '03/25/2024'])).toBe('MDY');
+  });
+
+  it('falls back to the hint, then day-first', () => {
+    expect(inferDateOrder(['03/02/2024'], 'MDY')).toBe('MDY');
+    expect(inferDateOrder(['03/02/2024'])).toBe('DMY');
+  });
+});
+
+describe('resolveTransactionDates', () => {
+  it('resolves every row with one order and keeps unreadable dates raw', () => {
+    const rows = resolveTransactionDates([
+      row(100, 'debit', undefined, { date: '03/02/2024' }),
+      row(100, 'debit', undefined, { date: '03/25/2024' }),
+      row(100, 'debit', undefined, { date: 'n/a' })
+    ], null);
+    expect(rows.map(transaction => transaction.date)).toEqual(['2024-03-02', '2024-03-25', 'n/a']);
+    expect(rows[2].dateError).toMatch(/not a recognised date/);
+  });
+});
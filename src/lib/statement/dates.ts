@@ -0,0 +1,157 @@
+import type { BankProfile } from "./profiles/types";
+import type { ExtractedTransaction } from "./types";
+
+// Field order of numeric dates; YMD is only used for ISO-like input
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+export interface DateParseError {
+  code: 'unrecognized' | 'invalid';
+  input: string;
+  message: string;
+}
+
+export type DateParseResult = { ok: true; value: string } | { ok: false; error: DateParseError };
+
+export interface DateParseOptions {
+  order?: DateOrder;
+  // Two-digit years up to this value are 20xx, above it 19xx
+  pivotYear?: number;
+}
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+const MONTH_NAME_SOURCE = '(?:jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\\.?';
+
+// Any date a statement row may start with: numeric, textual month or ISO
+export const DATE_PATTERN_SOURCE = [
+  '\\d{4}[-/.]\\d{1,2}[-/.]\\d{1,2}',
+  '\\d{1,2}[-/.]\\d{1,2}[-/.]\\d{2,4}',
+  `\\d{1,2}[-/. ]?${MONTH_NAME_SOURCE}[-/. ,]*\\d{2,4}`,
+  `${MONTH_NAME_SOURCE}[-/. ]?\\d{1,2}(?:st|nd|rd|th)?,?[-/. ]+\\d{2,4}`
+].join('|');
+
+const DATE_TEXT = new RegExp(`^(?:${DATE_PATTERN_SOURCE})$`, 'i');
+
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/;
+const NUMERIC_DATE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/;
+const DAY_MONTH_NAME = /^(\d{1,2})[-/. ]?([a-z]{3,9})\.?[-/. ,]*(\d{2}|\d{4})$/i;
+const MONTH_NAME_DAY = /^([a-z]{3,9})\.?[-/. ]?(\d{1,2})(?:st|nd|rd|th)?,?[-/. ]+(\d{2}|\d{4})$/i;
+
+export const isDateText = (text: string): boolean => DATE_TEXT.test(text.trim());
+
+const monthFromName = (name: string): number | null => {
+  const lower = name.toLowerCase();
+  if (lower === 'sept') return 9;
+  const index = MONTH_NAMES.findIndex(month => lower.length >= 3 && month.startsWith(lower));
+  return index === -1 ? null : index + 1;
+};
+
+const expandYear = (year: string, pivotYear: number): number => {
+  const value = parseInt(year, 10);
+  if (year.length === 4) return value;
+  return value <= pivotYear ? 2000 + value : 1900 + value;
+};
+
+const daysInMonth = (year: number, month: number): number => {
+  const isLeap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  return [31, isLeap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+};
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+// Parse a statement date into YYYY-MM-DD without going through Date, so the
+// result never shifts with the browser's timezone
+export const parseStatementDate = (input: string, options: DateParseOptions = {}): DateParseResult => {
+  const order = options.order || 'DMY';
+  const pivotYear = options.pivotYear ?? 50;
+  const text = input.trim().replace(/\s+/g, ' ').replace(/[,.]$/, '');
+  const fail = (code: DateParseError['code'], message: string): DateParseResult => ({
+    ok: false,
+    error: { code, input, message }
+  });
+
+  let day: number;
+  let month: number | null;
+  let year: number;
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(ISO_DATE))) {
+    [year, month, day] = [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+  } else if ((match = text.match(NUMERIC_DATE))) {
+    const first = parseInt(match[1], 10);
+    const second = parseInt(match[2], 10);
+    [day, month] = order === 'MDY' ? [second, first] : [first, second];
+    year = expandYear(match[3], pivotYear);
+  } else if ((match = text.match(DAY_MONTH_NAME))) {
+    day = parseInt(match[1], 10);
+    month = monthFromName(match[2]);
+    year = expandYear(match[3], pivotYear);
+  } else if ((match = text.match(MONTH_NAME_DAY))) {
+    month = monthFromName(match[1]);
+    day = parseInt(match[2], 10);
+    year = expandYear(match[3], pivotYear);
+  } else {
+    return fail('unrecognized', `"${input}" is not a recognised date`);
+  }
+
+  if (!month || month < 1 || month > 12) {
+    return fail('invalid', `"${input}" has no valid month`);
+  }
+  if (day < 1 || day > daysInMonth(year, month)) {
+    return fail('invalid', `"${input}" has no day ${day} in month ${month}`);
+  }
+
+  return { ok: true, value: `${pad(year, 4)}-${pad(month)}-${pad(day)}` };
+};
+
+// Read the field order from a profile format such as "DD/MM/YY"
+export const dateOrderFromFormats = (formats: string[]): DateOrder | undefined => {
+  for (const format of formats) {
+    const upper = format.toUpperCase();
+    const positions = { D: upper.indexOf('D'), M: upper.indexOf('M'), Y: upper.indexOf('Y') };
+    if (positions.D === -1 || positions.M === -1 || positions.Y === -1) continue;
+    // Textual months are unambiguous, so they say nothing about numeric order
+    if (upper.includes('MMM')) continue;
+    if (positions.Y < positions.M) return 'YMD';
+    return positions.D < positions.M ? 'DMY' : 'MDY';
+  }
+  return undefined;
+};
+
+// Decide day-first vs month-first for a whole statement: any first field above
+// 12 proves day-first, any second field above 12 proves month-first
+export const inferDateOrder = (inputs: string[], hint?: DateOrder): DateOrder => {
+  let dayFirst = 0;
+  let monthFirst = 0;
+
+  for (const input of inputs) {
+    const match = input.trim().match(NUMERIC_DATE);
+    if (!match) continue;
+    if (parseInt(match[1], 10) > 12) dayFirst++;
+    if (parseInt(match[2], 10) > 12) monthFirst++;
+  }
+
+  if (dayFirst > 0 || monthFirst > 0) return dayFirst >= monthFirst ? 'DMY' : 'MDY';
+  // Indian statements are day-first unless the profile says otherwise
+  return hint && hint !== 'YMD' ? hint : 'DMY';
+};
+
+// Convert raw row dates to ISO using one order for the whole statement.
+// Rows whose date cannot be read keep the raw text and carry the error.
+export const resolveTransactionDates = (
+  transactions: ExtractedTransaction[],
+  profile: BankProfile | null
+): ExtractedTransaction[] => {
+  const rawDates = transactions.map(transaction => transaction.rawDate ?? transaction.date);
+  const order = inferDateOrder(rawDates, profile ? dateOrderFromFormats(profile.dateFormats) : undefined);
+
+  return transactions.map((transaction, index) => {
+    const result = parseStatementDate(rawDates[index], { order });
+    if (result.ok === true) {
+      return { ...transaction, date: result.value, rawDate: rawDates[index], dateError: undefined };
+    }
+    return { ...transaction, date: rawDates[index], rawDate: rawDates[index], dateError: result.error.message };
+  });
+};
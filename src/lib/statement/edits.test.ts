@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { editTransactionCell, mergeTransactions, revalidateTransactions, splitTransaction } from "./edits";
+import { money } from "./money";
+import { acceptTransaction, reviewQueue } from "./review";
+import { row } from "@/test/fixtures";
+
+const THRESHOLD = 0.7;
+const totals = { openingBalance: money(600000) };
+
+// As parsed: the Salary row's balance was misread, so it breaks
+const parsed = () => revalidateTransactions([
+  row(100000, 'debit', 500000, { description: 'UPI payment to shop' }),
+  row(200000, 'credit', 750000, { description: 'Salary for January' }),
+  row(50000, 'debit', 650000, { description: 'ATM withdrawal' })
+], totals).transactions;
+
+describe('revalidateTransactions', () => {
+  it('scores a break low enough to queue it', () => {
+    const rows = parsed();
+    expect(rows[1].balanceCheck).toBe('break');
+    expect(rows[1].confidence).toBeLessThan(THRESHOLD);
+    expect(reviewQueue(rows, THRESHOLD)).toEqual([1, 2]);
+  });
+
+  it('takes a fixed break out of the review queue', () => {
+    const fixed = revalidateTransactions(editTransactionCell(parsed(), 1, 'balance', '7,000.00'), totals);
+    expect(fixed.transactions.map(transaction => transaction.balanceCheck)).toEqual(['ok', 'ok', 'ok']);
+    expect(fixed.transactions[1].confidence).toBe(1);
+    expect(reviewQueue(fixed.transactions, THRESHOLD)).toEqual([]);
+    expect(fixed.accuracy).toBe(100);
+  });
+
+  it('queues a break an edit creates, even on an accepted row', () => {
+    const balanced = revalidateTransactions(editTransactionCell(parsed(), 1, 'balance', '7,000.00'), totals).transactions;
+    const accepted = acceptTransaction(balanced, 2);
+    const broken = revalidateTransactions(editTransactionCell(accepted, 2, 'debit', '5,000.00'), totals);
+    expect(broken.transactions[2].balanceCheck).toBe('break');
+    expect(broken.transactions[2].reviewed).toBeUndefined();
+    expect(broken.transactions[2].confidence).toBeLessThan(THRESHOLD);
+    expect(reviewQueue(broken.transactions, THRESHOLD)).toEqual([2]);
+  });
+
+  it('keeps types and repeated rows as the user left them', () => {
+    const rows = revalidateTransactions([
+      row(100000, 'debit', 500000),
+      row(100000, 'debit', 500000)
+    ]).transactions;
+    expect(rows).toHaveLength(2);
+  });
+});
+
+describe('row edits', () => {
+  it('rejects text that is not an amount', () => {
+    expect(() => editTransactionCell(parsed(), 0, 'debit', 'abc')).toThrow(/not an amount/);
+  });
+
+  it('splits a row in two and merges it back', () => {
+    const split = splitTransaction(parsed(), 1);
+    expect(split).toHaveLength(4);
+    expect(split[1].description).toBe('Salary for');
+    expect(split[2]).toMatchObject({ description: 'January', amount: money(0) });
+    const merged = revalidateTransactions(mergeTransactions(split, 1), totals).transactions;
+    expect(merged[1]).toMatchObject({ description: 'Salary for January', amount: money(200000), balance: money(750000) });
+    // Text-layer rows have no cell confidences to carry over
+    expect(merged[1].fieldConfidence).toBeUndefined();
+    expect(merged[1].confidence).toBeLessThan(THRESHOLD);
+    expect(reviewQueue(merged, THRESHOLD)).toEqual([1, 2]);
+  });
+
+  it('scores a merged row by the cell confidences it keeps', () => {
+    const rows = [
+      row(0, 'debit', undefined, { description: 'NEFT from', fieldConfidence: { description: 0.95 } }),
+      row(100000, 'credit', 700000, { description: 'Acme Ltd', fieldConfidence: { amount: 0.6 } })
+    ];
+    const [merged] = revalidateTransactions(mergeTransactions(rows, 0), totals).transactions;
+    expect(merged.fieldConfidence).toEqual({ description: 0.95, amount: 0.6 });
+    expect(merged.confidence).toBe(0.6);
+  });
+});
@@ -0,0 +1,252 @@
+import { parseAmount, signedBalance } from "./amounts";
+import { definedFields } from "./columns";
+import { parseStatementDate } from "./dates";
+import { absMoney, DEFAULT_CURRENCY, money, moneyToDecimal, type Money } from "./money";
+import { mergeBoxes } from "./lines";
+import { calculateAccuracy } from "./parse";
+import { reconcileTransactions, summarizeReconciliation } from "./reconcile";
+import { verifyStatementTotals } from "./summary";
+import { calculateTransactionConfidence } from "./transactions";
+import type {
+  ExtractedTransaction,
+  ReconciliationSummary,
+  StatementTotals,
+  SummaryCheck,
+  TableRegion,
+  TransactionField
+} from "./types";
+
+// Cells of the correction grid, in STATEMENT_COLUMNS order. Debit and
+// credit are two views of one amount; which one is filled is the row's type.
+export type EditableColumn = 'date' | 'reference' | 'description' | 'debit' | 'credit' | 'balance';
+
+export const EDITABLE_COLUMNS: EditableColumn[] = ['date', 'reference', 'description', 'debit', 'credit', 'balance'];
+
+const COLUMN_FIELDS: Record<EditableColumn, TransactionField> = {
+  date: 'date',
+  reference: 'reference',
+  description: 'description',
+  debit: 'amount',
+  credit: 'amount',
+  balance: 'balance'
+};
+
+export interface RevalidatedStatement {
+  transactions: ExtractedTransaction[];
+  reconciliation: ReconciliationSummary;
+  summaryChecks: SummaryCheck[];
+  accuracy: number;
+}
+
+const replaceAt = (transactions: ExtractedTransaction[], index: number, ...rows: ExtractedTransaction[]) =>
+  [...transactions.slice(0, index), ...rows, ...transactions.slice(index + 1)];
+
+const readMoney = (text: string, currency: string): Money => {
+  const token = parseAmount(text, { currency });
+  if (!token) throw new Error(`"${text}" is not an amount`);
+  return signedBalance(token);
+};
+
+// A cell the user typed is as certain as it gets
+const confirmField = (transaction: ExtractedTransaction, field: TransactionField): ExtractedTransaction => ({
+  ...transaction,
+  fieldConfidence: { ...transaction.fieldConfidence, [field]: 1 }
+});
+
+// How sure the parser was of a cell, 0–1; rows read from the text layer
+// only have the row's own confidence
+export const cellConfidence = (transaction: ExtractedTransaction, column: EditableColumn): number =>
+  transaction.fieldConfidence?.[COLUMN_FIELDS[column]] ?? transaction.confidence;
+
+// The empty side of debit/credit holds nothing to be unsure of
+export const cellHoldsValue = (transaction: ExtractedTransaction, column: EditableColumn): boolean =>
+  column !== (transaction.type === 'debit' ? 'credit' : 'debit');
+
+// Where a cell's value was read on its page, if known
+export const cellBounds = (transaction: ExtractedTransaction, column: EditableColumn): TableRegion | undefined =>
+  transaction.fieldBounds?.[COLUMN_FIELDS[column]];
+
+// A cell's value as text to edit; amounts without grouping or symbols
+export const cellEditText = (transaction: ExtractedTransaction, column: EditableColumn): string => {
+  switch (column) {
+    case 'date':
+      return transaction.date;
+    case 'reference':
+      return transaction.reference || '';
+    case 'description':
+      return transaction.description;
+    case 'balance':
+      return transaction.balance ? moneyToDecimal(transaction.balance) : '';
+    default:
+      return transaction.type === column ? moneyToDecimal(transaction.amount) : '';
+  }
+};
+
+// Write typed text into a cell. Throws with a readable reason when the text
+// isn't a date or amount. Typing into the other side's amount column moves
+// the amount there.
+export const editTransactionCell = (
+  transactions: ExtractedTransaction[],
+  index: number,
+  column: EditableColumn,
+  text: string
+): ExtractedTransaction[] => {
+  const transaction = transactions[index];
+  const value = text.trim();
+  const currency = transaction.amount.currency;
+  let edited: ExtractedTransaction;
+
+  switch (column) {
+    case 'date': {
+      const result = parseStatementDate(value);
+      if (result.ok === false) throw new Error(result.error.message);
+      edited = { ...transaction, date: result.value, rawDate: value, dateError: undefined };
+      break;
+    }
+    case 'reference':
+      edited = { ...transaction, reference: value || undefined };
+      break;
+    case 'description':
+      edited = { ...transaction, description: value };
+      break;
+    case 'balance':
+      edited = { ...transaction, balance: value ? readMoney(value, currency) : undefined };
+      break;
+    default:
+      // Clearing the empty side changes nothing
+      if (!value && transaction.type !== column) return transactions;
+      edited = {
+        ...transaction,
+        amount: value ? absMoney(readMoney(value, currency)) : money(0, currency),
+        type: column
+      };
+  }
+
+  return replaceAt(transactions, index, confirmField(edited, COLUMN_FIELDS[column]));
+};
+
+export const flipTransactionType = (transactions: ExtractedTransaction[], index: number): ExtractedTransaction[] => {
+  const transaction = transactions[index];
+  return replaceAt(transactions, index, {
+    ...transaction,
+    type: transaction.type === 'credit' ? 'debit' : 'credit'
+  });
+};
+
+// The word break nearest the middle of a description
+const middleWordBreak = (text: string): number => {
+  const breaks = [...text.matchAll(/\s+/g)].map(match => match.index ?? 0);
+  if (breaks.length === 0) return text.length;
+  return breaks.reduce((best, position) =>
+    Math.abs(position - text.length / 2) < Math.abs(best - text.length / 2) ? position : best
+  );
+};
+
+// Split a row that holds two transactions. The description divides at `at`,
+// or halfway on a word break. The printed balance is the one after both, so
+// it moves to the new second row, which starts without an amount.
+export const splitTransaction = (
+  transactions: ExtractedTransaction[],
+  index: number,
+  at?: number
+): ExtractedTransaction[] => {
+  const transaction = transactions[index];
+  const cut = at ?? middleWordBreak(transaction.description);
+  return replaceAt(
+    transactions,
+    index,
+    { ...transaction, description: transaction.description.slice(0, cut).trim(), balance: undefined },
+    {
+      ...transaction,
+      description: transaction.description.slice(cut).trim(),
+      reference: undefined,
+      amount: money(0, transaction.amount.currency),
+      fieldConfidence: { ...transaction.fieldConfidence, amount: 0 }
+    }
+  );
+};
+
+// Join a row with the one below, e.g. a wrapped narration read as a row of
+// its own. The amount is the first non-zero one, the balance the last printed.
+export const mergeTransactions = (transactions: ExtractedTransaction[], index: number): ExtractedTransaction[] => {
+  const first = transactions[index];
+  const second = transactions[index + 1];
+  if (!first || !second) return transactions;
+
+  const amountRow = first.amount.minor !== 0 ? first : second;
+  const balanceRow = second.balance ? second : first;
+  const merged: ExtractedTransaction = {
+    ...first,
+    description: `${first.description} ${second.description}`.trim(),
+    reference: first.reference || second.reference,
+    amount: amountRow.amount,
+    type: amountRow.type,
+    balance: balanceRow.balance,
+    confidence: Math.min(first.confidence, second.confidence),
+    fieldConfidence: definedFields({
+      ...first.fieldConfidence,
+      amount: amountRow.fieldConfidence?.amount,
+      balance: balanceRow.fieldConfidence?.balance
+    }) ?? undefined,
+    // Both rows' sources stay findable when they are on the same page
+    fieldBounds: first.page === second.page
+      ? definedFields({
+        ...first.fieldBounds,
+        description: first.fieldBounds?.description && second.fieldBounds?.description
+          ? mergeBoxes(first.fieldBounds.description, second.fieldBounds.description)
+          : first.fieldBounds?.description,
+        amount: amountRow.fieldBounds?.amount,
+        balance: balanceRow.fieldBounds?.balance
+      }) ?? undefined
+      : first.fieldBounds
+  };
+  return [...transactions.slice(0, index), merged, ...transactions.slice(index + 2)];
+};
+
+// A blank row below `index`, or at the top for -1, dated like its neighbour
+export const insertTransaction = (transactions: ExtractedTransaction[], index: number): ExtractedTransaction[] => {
+  const neighbour = transactions[Math.max(index, 0)];
+  const row: ExtractedTransaction = {
+    date: neighbour?.date ?? '',
+    description: '',
+    amount: money(0, neighbour?.amount.currency ?? DEFAULT_CURRENCY),
+    type: 'debit',
+    confidence: 1,
+    page: neighbour?.page
+  };
+  return [...transactions.slice(0, index + 1), row, ...transactions.slice(index + 1)];
+};
+
+export const deleteTransaction = (transactions: ExtractedTransaction[], index: number): ExtractedTransaction[] =>
+  transactions.filter((_, position) => position !== index);
+
+// Re-run the balance and summary checks over edited rows and rescore them,
+// so a fixed break leaves the review queue and a new one joins it. Types stay
+// as the user left them and repeated rows stay put; either may be a
+// deliberate edit.
+export const revalidateTransactions = (
+  transactions: ExtractedTransaction[],
+  totals: StatementTotals = {}
+): RevalidatedStatement => {
+  const result = reconcileTransactions(transactions, {
+    openingBalance: totals.openingBalance,
+    autoCorrectType: false,
+    removeDuplicates: false
+  });
+  const rescored = result.transactions.map((transaction, index) => {
+    // An accepted row the edit has just broken needs looking at again
+    const newBreak = transaction.balanceCheck === 'break' && transactions[index].balanceCheck !== 'break';
+    return {
+      ...transaction,
+      reviewed: newBreak ? undefined : transaction.reviewed,
+      confidence: calculateTransactionConfidence(transaction)
+    };
+  });
+  const reconciliation = summarizeReconciliation(result);
+  return {
+    transactions: rescored,
+    reconciliation,
+    summaryChecks: verifyStatementTotals(totals, rescored),
+    accuracy: calculateAccuracy(rescored, reconciliation)
+  };
+};
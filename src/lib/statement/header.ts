@@ -0,0 +1,123 @@
+import { clipToRegion } from "./columns";
+import { boundingBox } from "./lines";
+import type { BankProfile } from "./profiles/types";
+import type { HeaderField, HeaderLocations, PdfTextItem, StatementHeader, TableRegion } from "./types";
+
+// Generic header rules shared by every bank; profile rules are tried first
+const ACCOUNT_NUMBER_PATTERNS = [
+  /Account\s*(?:No|Number|#)\.?\s*[:-]?\s*([0-9X][0-9X-]{4,29})/i,
+  /A\/C\s*(?:No\.?)?\s*[:-]?\s*([0-9X][0-9X-]{4,29})/i,
+  /Account\s*[:-]?\s*([0-9X]{5,30})/i,
+  // Hindi and Marathi labels: खाता संख्या, खाता सं., खाता क्रमांक, खाते क्रमांक
+  /खात[ाे]\s*(?:संख्या|सं\.?|क्रमांक|नं\.?)\s*[:-]?\s*([0-9X][0-9X-]{4,29})/
+];
+
+const ACCOUNT_HOLDER_PATTERNS = [
+  /(?:Account\s*Holder|Customer\s*Name|Account\s*Name)\s*[:-]?\s*([A-Z][A-Za-z. ]{2,50})/i,
+  /(?:^|\s)Name\s*[:-]?\s*([A-Z][A-Za-z. ]{2,50})/i,
+  // नाम, ग्राहक का नाम, खाताधारक का नाम but not नामांकन (nomination); the name
+  // itself may be in either script
+  /नाम(?!\p{sc=Deva})\s*[:-]?\s*([A-Z\p{sc=Deva}][A-Za-z.\p{sc=Deva} ]{2,50})/u
+];
+
+const STATEMENT_PERIOD_PATTERNS = [
+  /Statement\s*Period\s*[:-]?\s*([0-9A-Za-z/\-. ]+?\s+to\s+[0-9/\-.]+(?:\s[A-Za-z]{3}\s\d{2,4})?)/i,
+  /Period\s*[:-]?\s*([0-9A-Za-z/\-. ]+?\s+to\s+[0-9/\-.]+(?:\s[A-Za-z]{3}\s\d{2,4})?)/i,
+  // अवधि: "01-04-2024 से 31-03-2025 तक" or with "to"
+  /अवधि\s*[:-]?\s*([0-9A-Za-z/\-. ]+?\s+(?:to|से)\s+[0-9/\-.]+(?:\s[A-Za-z]{3}\s\d{2,4})?)/i
+];
+
+const firstMatch = (text: string, patterns: RegExp[]): string | undefined => {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    // Two or more spaces mark the start of the next field on the same line
+    if (match) return match[1].split(/\s{2,}/)[0].trim();
+  }
+  return undefined;
+};
+
+export const extractStatementHeader = (text: string, profile: BankProfile | null = null): StatementHeader => {
+  const header: StatementHeader = {
+    accountNumber: firstMatch(text, [...(profile?.headerFields.accountNumber || []), ...ACCOUNT_NUMBER_PATTERNS]),
+    accountHolder: firstMatch(text, [...(profile?.headerFields.accountHolder || []), ...ACCOUNT_HOLDER_PATTERNS]),
+    statementPeriod: firstMatch(text, [...(profile?.headerFields.statementPeriod || []), ...STATEMENT_PERIOD_PATTERNS])
+  };
+
+  const ifsc = text.match(/\b[A-Z]{4}0[A-Z0-9]{6}\b/);
+  if (ifsc) header.ifsc = ifsc[0];
+
+  const branch = text.match(/Branch\s*(?:Name)?\s*[:-]?\s*([A-Za-z0-9.,\- ]{2,40})/i);
+  if (branch) header.branch = branch[1].split(/\s{2,}/)[0].trim();
+
+  const bank = text.match(/([A-Z][A-Z &]{3,30}BANK|Bank of [A-Z][A-Za-z ]{1,30})/);
+  header.bankName = profile?.name || (bank ? bank[0].trim() : undefined);
+
+  return header;
+};
+
+// Flatten a header into labelled fields for display and export
+export const headerToRecord = (header: StatementHeader): Record<string, string> => {
+  const labels: [keyof StatementHeader, string][] = [
+    ['bankName', 'Bank'],
+    ['accountNumber', 'Account'],
+    ['accountHolder', 'Holder'],
+    ['statementPeriod', 'Period'],
+    ['ifsc', 'IFSC'],
+    ['branch', 'Branch']
+  ];
+
+  const record: Record<string, string> = {};
+  for (const [key, label] of labels) {
+    if (header[key]) record[label] = header[key]!;
+  }
+  return record;
+};
+
+const HEADER_FIELDS: HeaderField[] = ['accountNumber', 'accountHolder', 'statementPeriod'];
+
+// Box around a field's items; values differ in length between statements, so
+// the box runs on to the right by half its width
+const fieldBox = (items: PdfTextItem[]): TableRegion => {
+  const box = boundingBox(items)!;
+  return { ...box, x1: box.x1 + (box.x1 - box.x0) * 0.5 };
+};
+
+// Find where the header values sit on a page, for reading them back by
+// position from later statements with the same layout
+export const locateHeaderFields = (lines: PdfTextItem[][], header: StatementHeader): HeaderLocations => {
+  const locations: HeaderLocations = {};
+
+  for (const field of HEADER_FIELDS) {
+    const value = header[field];
+    if (!value) continue;
+    for (const line of lines) {
+      if (!line.map(item => item.str).join(' ').includes(value)) continue;
+      // Items holding part of the value, or the whole value with its label
+      const parts = line.filter(item => {
+        const text = item.str.trim();
+        return text && (value.includes(text) || text.includes(value));
+      });
+      if (parts.length === 0) continue;
+      locations[field] = fieldBox(parts);
+      break;
+    }
+  }
+
+  return locations;
+};
+
+// Header values read from their saved positions; a label caught in the box
+// ("Account No : 1234") is dropped up to its colon
+export const readHeaderLocations = (lines: PdfTextItem[][], locations: HeaderLocations): StatementHeader => {
+  const header: StatementHeader = {};
+
+  for (const field of HEADER_FIELDS) {
+    const region = locations[field];
+    if (!region) continue;
+    const text = clipToRegion(lines, region).flat().map(item => item.str.trim()).join(' ');
+    const value = text.replace(/^[^:]*:\s*/, '').trim();
+    if (value) header[field] = value;
+  }
+
+  return header;
+};
@@ -0,0 +1,19 @@
+// Framework-free statement parsing engine shared by the converter components
+export * from "./amounts";
+export * from "./columns";
+export * from "./dates";
+export * from "./edits";
+export * from "./header";
+export * from "./layout";
+export * from "./lines";
+export * from "./money";
+export * from "./parse";
+export * from "./passes";
+export * from "./profiles";
+export * from "./reconcile";
+export * from "./review";
+export * from "./sheets";
+export * from "./sources";
+export * from "./summary";
+export * from "./transactions";
+export type * from "./types";
@@ -0,0 +1,100 @@
+import type { ColumnRole } from "./profiles/types";
+import type { ColumnTemplate, TableRegion } from "./types";
+
+// A table layout drawn by hand: the table's area, vertical separators
+// between its columns, and what each column holds (null to ignore it)
+export interface TableLayout {
+  region: TableRegion | null;
+  // x positions in PDF points, left to right
+  separators: number[];
+  // One per column, so separators.length + 1 once a region is drawn
+  roles: (ColumnRole | null)[];
+}
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  date: 'Date',
+  valueDate: 'Value Date',
+  reference: 'Chq No',
+  description: 'Particulars',
+  debit: 'Debit',
+  credit: 'Credit',
+  amount: 'Amount',
+  drCr: 'Dr/Cr',
+  balance: 'Balance'
+};
+
+// Roles guessed for new columns, in the usual Indian statement order
+const DEFAULT_ROLES: ColumnRole[] = ['date', 'reference', 'description', 'debit', 'credit', 'balance'];
+
+export const emptyTableLayout = (): TableLayout => ({ region: null, separators: [], roles: [] });
+
+// A new region starts as a single column; separators are dropped in afterwards
+export const setTableRegion = (region: TableRegion): TableLayout => ({
+  region,
+  separators: [],
+  roles: [DEFAULT_ROLES[0]]
+});
+
+// Split the column under x in two
+export const addColumnSeparator = (layout: TableLayout, x: number): TableLayout => {
+  if (!layout.region || x <= layout.region.x0 || x >= layout.region.x1) return layout;
+  const index = layout.separators.filter(separator => separator < x).length;
+  const roles = [...layout.roles];
+  roles.splice(index + 1, 0, DEFAULT_ROLES[roles.length] ?? null);
+  return {
+    ...layout,
+    separators: [...layout.separators.slice(0, index), x, ...layout.separators.slice(index)],
+    roles
+  };
+};
+
+// Move a separator, keeping it between its neighbours
+export const moveColumnSeparator = (layout: TableLayout, index: number, x: number): TableLayout => {
+  if (!layout.region) return layout;
+  const min = index > 0 ? layout.separators[index - 1] : layout.region.x0;
+  const max = index < layout.separators.length - 1 ? layout.separators[index + 1] : layout.region.x1;
+  const separators = [...layout.separators];
+  separators[index] = Math.min(max - 1, Math.max(min + 1, x));
+  return { ...layout, separators };
+};
+
+// Merge the two columns either side of a separator; the left one's role wins
+export const removeColumnSeparator = (layout: TableLayout, index: number): TableLayout => ({
+  ...layout,
+  separators: layout.separators.filter((_, position) => position !== index),
+  roles: layout.roles.filter((_, position) => position !== index + 1)
+});
+
+export const setColumnRole = (layout: TableLayout, index: number, role: ColumnRole | null): TableLayout => ({
+  ...layout,
+  roles: layout.roles.map((current, position) => (position === index ? role : current))
+});
+
+// A parser template for the layout, or null until it has a region, a date
+// column and an amount or balance column
+export const layoutToTemplate = (layout: TableLayout): ColumnTemplate | null => {
+  const { region, separators, roles } = layout;
+  const hasDate = roles.includes('date') || roles.includes('valueDate');
+  const hasAmount = roles.some(role => ['debit', 'credit', 'amount', 'balance'].includes(role));
+  if (!region || !hasDate || !hasAmount) return null;
+
+  const edges = [region.x0, ...separators, region.x1];
+  const columns = roles.map((role, index) => ({
+    role,
+    label: role ? COLUMN_ROLE_LABELS[role] : '',
+    x0: edges[index],
+    x1: edges[index + 1]
+  }));
+
+  return { columns, columnNames: columns.map(column => column.label), region, manual: true };
+};
+
+// The editable layout behind a template with a region, e.g. a saved one
+export const templateToLayout = (template: ColumnTemplate | null): TableLayout | null => {
+  if (!template?.region) return null;
+  return {
+    region: template.region,
+    separators: template.columns.slice(1).map(column => column.x0),
+    roles: template.columns.map(column => column.role)
+  };
+};
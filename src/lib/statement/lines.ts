@@ -0,0 +1,58 @@
+import type { PdfTextItem, TableRegion } from "./types";
+
+// Items whose baselines differ by less than this many points share a line
+const LINE_TOLERANCE = 2;
+
+// Group pdf.js text items into visual lines, top to bottom, each sorted left to right
+export const groupTextItemsIntoLines = (items: PdfTextItem[]): PdfTextItem[][] => {
+  const sortedItems = items
+    .filter(item => item.str && item.str.trim())
+    .sort((a, b) => b.transform[5] - a.transform[5]);
+
+  const lines: PdfTextItem[][] = [];
+  let currentLine: PdfTextItem[] = [];
+  let lineY = 0;
+
+  for (const item of sortedItems) {
+    const itemY = item.transform[5];
+
+    if (currentLine.length > 0 && Math.abs(itemY - lineY) >= LINE_TOLERANCE) {
+      lines.push(currentLine);
+      currentLine = [];
+    }
+    if (currentLine.length === 0) lineY = itemY;
+    currentLine.push(item);
+  }
+
+  if (currentLine.length > 0) lines.push(currentLine);
+
+  return lines.map(line => [...line].sort((a, b) => a.transform[4] - b.transform[4]));
+};
+
+export const textItemsToLines = (items: PdfTextItem[]): string[] =>
+  groupTextItemsIntoLines(items)
+    .map(line => line.map(item => item.str).join(' ').trim())
+    .filter(line => line.length > 0);
+
+const fontSize = (item: PdfTextItem): number => Math.abs(item.transform[3]) || item.height || 10;
+
+export const itemX0 = (item: PdfTextItem): number => item.transform[4];
+
+export const itemX1 = (item: PdfTextItem): number =>
+  // Some producers omit widths; assume roughly half an em per character
+  item.transform[4] + (item.width || item.str.length * fontSize(item) * 0.5);
+
+// The item's box in PDF points, from just below the baseline to the top of the type
+export const itemBox = (item: PdfTextItem): TableRegion => {
+  const y = item.transform[5];
+  return { x0: itemX0(item), x1: itemX1(item), y0: y - fontSize(item) * 0.3, y1: y + fontSize(item) };
+};
+
+export const mergeBoxes = (a: TableRegion | undefined, b: TableRegion): TableRegion =>
+  a
+    ? { x0: Math.min(a.x0, b.x0), x1: Math.max(a.x1, b.x1), y0: Math.min(a.y0, b.y0), y1: Math.max(a.y1, b.y1) }
+    : b;
+
+// Smallest box around all the items, or undefined for none
+export const boundingBox = (items: PdfTextItem[]): TableRegion | undefined =>
+  items.map(itemBox).reduce<TableRegion | undefined>(mergeBoxes, undefined);
@@ -0,0 +1,92 @@
+// Exact money values. Amounts are held as integer minor units (paise for INR),
+// so sums over thousands of rows never pick up float drift.
+export interface Money {
+  minor: number;
+  currency: string;
+}
+
+export const DEFAULT_CURRENCY = 'INR';
+
+// Every currency a statement is likely to use here has two decimal places
+const MINOR_DIGITS = 2;
+const MINOR_PER_UNIT = 10 ** MINOR_DIGITS;
+
+export const money = (minor: number, currency: string = DEFAULT_CURRENCY): Money => ({ minor, currency });
+
+export const zeroMoney = (currency: string = DEFAULT_CURRENCY): Money => money(0, currency);
+
+// Build from printed digits without going through a float
+export const moneyFromDigits = (
+  integer: string,
+  fraction: string,
+  negative = false,
+  currency: string = DEFAULT_CURRENCY
+): Money => {
+  const minor = parseInt(integer || '0', 10) * MINOR_PER_UNIT + parseInt(fraction.padEnd(MINOR_DIGITS, '0'), 10);
+  return money(negative && minor !== 0 ? -minor : minor, currency);
+};
+
+// For values that only exist as numbers, e.g. typed into a form
+export const moneyFromNumber = (value: number, currency: string = DEFAULT_CURRENCY): Money =>
+  money(Math.round(value * MINOR_PER_UNIT), currency);
+
+const sameCurrency = (a: Money, b: Money) => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+};
+
+export const addMoney = (a: Money, b: Money): Money => {
+  sameCurrency(a, b);
+  return money(a.minor + b.minor, a.currency);
+};
+
+export const subtractMoney = (a: Money, b: Money): Money => {
+  sameCurrency(a, b);
+  return money(a.minor - b.minor, a.currency);
+};
+
+export const negateMoney = (value: Money): Money => money(-value.minor, value.currency);
+
+export const absMoney = (value: Money): Money => money(Math.abs(value.minor), value.currency);
+
+export const sumMoney = (values: Money[], currency: string = DEFAULT_CURRENCY): Money =>
+  values.reduce(addMoney, zeroMoney(values[0]?.currency ?? currency));
+
+export const moneyEquals = (a: Money, b: Money): boolean => a.currency === b.currency && a.minor === b.minor;
+
+export const isMoney = (value: unknown): value is Money =>
+  typeof value === 'object' && value !== null && typeof (value as Money).minor === 'number' &&
+  typeof (value as Money).currency === 'string';
+
+// Plain decimal text such as "-1234.50", exact for any amount
+export const moneyToDecimal = (value: Money): string => {
+  const digits = String(Math.abs(value.minor)).padStart(MINOR_DIGITS + 1, '0');
+  const sign = value.minor < 0 ? '-' : '';
+  return `${sign}${digits.slice(0, -MINOR_DIGITS)}.${digits.slice(-MINOR_DIGITS)}`;
+};
+
+// Number for spreadsheet cells; the nearest double to the exact decimal
+export const moneyToNumber = (value: Money): number => Number(moneyToDecimal(value));
+
+// Display text with lakh grouping for rupees: 1,23,456.78
+export const formatMoney = (value: Money): string => {
+  const [integer, fraction] = moneyToDecimal(absMoney(value)).split('.');
+  const grouped = value.currency === 'INR'
+    ? integer.replace(/(\d)(?=(\d{2})*\d{3}$)/g, '$1,')
+    : integer.replace(/\B(?=(\d{3})+$)/g, ',');
+  return `${value.minor < 0 ? '-' : ''}${grouped}.${fraction}`;
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  INR: '₹',
+  USD: '$',
+  EUR: '€',
+  GBP: '£'
+};
+
+// Excel number format for a currency column
+export const currencyNumberFormat = (currency: string): string => {
+  const symbol = CURRENCY_SYMBOLS[currency];
+  return symbol ? `"${symbol}"#,##0.00` : `#,##0.00 "${currency}"`;
+};
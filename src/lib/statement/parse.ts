@@ -0,0 +1,196 @@
+import { detectColumnTemplate, extractColumnTransactions } from "./columns";
+import { resolveTransactionDates } from "./dates";
+import { extractStatementHeader, readHeaderLocations } from "./header";
+import { groupTextItemsIntoLines } from "./lines";
+import { readPageRows, runExtractionPasses, voteOnRows, type PageLines } from "./passes";
+import { detectBankProfile } from "./profiles";
+import type { BankProfile } from "./profiles/types";
+import { reconcileTransactions, summarizeReconciliation } from "./reconcile";
+import { extractStatementTotals, verifyStatementTotals } from "./summary";
+import {
+  calculateTransactionConfidence,
+  extractTransactions,
+  removeDuplicateTransactions
+} from "./transactions";
+import type {
+  ColumnTemplate,
+  ExtractedTransaction,
+  ExtractionMethod,
+  HeaderLocations,
+  ParsedStatement,
+  PdfTextItem,
+  ReconciliationSummary,
+  StatementHeader
+} from "./types";
+
+export interface ParseOptions {
+  // Skip detection and parse with this profile; null forces generic patterns
+  profile?: BankProfile | null;
+  // Attach wrapped narration lines to the transaction above them
+  mergeParticulars?: boolean;
+}
+
+export type StatementPageInput = PdfTextItem[] | string;
+
+export interface TextItemParseOptions extends ParseOptions {
+  // Read cells by x-position when a table header row is found
+  detectColumns?: boolean;
+  // Layout to start with, e.g. one detected on an earlier document
+  columnTemplate?: ColumnTemplate | null;
+  // How each page was read; defaults to 'text' for item pages and 'ocr' for plain text
+  pageMethods?: ExtractionMethod[];
+  // Document page number of each input page, when only some pages are parsed
+  pageNumbers?: number[];
+  // Saved header positions, read from the first page for fields the header rules miss
+  headerLocations?: HeaderLocations;
+  // Read each page with every strategy and keep, row by row, the reading
+  // that best continues the running balance
+  multiPass?: boolean;
+  // OCR of pages that were read from their text layer, by input page; the
+  // extra pass of multi-pass parsing
+  ocrReadings?: (StatementPageInput | null)[];
+}
+
+export const calculateAccuracy = (
+  transactions: ExtractedTransaction[],
+  reconciliation: ReconciliationSummary
+): number => {
+  if (transactions.length === 0) return 0;
+
+  // When balances are printed, accuracy is the share of rows that tie out
+  if (reconciliation.checkedCount > 0) {
+    return (reconciliation.matchedCount / reconciliation.checkedCount) * 100;
+  }
+
+  const avgConfidence = transactions.reduce((sum, t) => sum + t.confidence, 0) / transactions.length;
+
+  // Additional accuracy factors
+  let accuracyBonus = 0;
+
+  // Check for complete data
+  const completeTransactions = transactions.filter(t =>
+    t.date && t.description && t.amount.minor && t.type
+  ).length;
+
+  accuracyBonus += (completeTransactions / transactions.length) * 0.1;
+
+  // Check for reference numbers
+  const withReferences = transactions.filter(t => t.reference).length;
+  if (withReferences > 0) {
+    accuracyBonus += 0.05;
+  }
+
+  return Math.min((avgConfidence + accuracyBonus) * 100, 100);
+};
+
+// Header without its empty fields, so it can be spread over another
+const definedHeader = (header: StatementHeader): StatementHeader =>
+  Object.fromEntries(Object.entries(header).filter(([, value]) => value)) as StatementHeader;
+
+const cleanLines = (lines: string[]): string[] =>
+  lines.map(line => line.trim()).filter(line => line.length > 0);
+
+const lineText = (line: PdfTextItem[]) => line.map(item => item.str).join(' ');
+
+const toPageLines = (page: StatementPageInput): PageLines => {
+  if (typeof page === 'string') return { lines: cleanLines(page.split(/\r?\n/)) };
+  const itemLines = groupTextItemsIntoLines(page);
+  const lineItems = itemLines.filter(line => lineText(line).trim().length > 0);
+  return { lines: lineItems.map(line => lineText(line).trim()), lineItems, itemLines };
+};
+
+const resolveProfile = (text: string, options: ParseOptions): BankProfile | null =>
+  options.profile !== undefined ? options.profile : detectBankProfile(text).profile;
+
+// Header, totals, reconciliation and scoring shared by every input shape
+const buildStatement = (
+  lines: string[],
+  extracted: ExtractedTransaction[],
+  profile: BankProfile | null,
+  columnTemplate: ColumnTemplate | null
+): ParsedStatement => {
+  const text = lines.join('\n');
+  const header = extractStatementHeader(text, profile);
+  const totals = extractStatementTotals(text);
+
+  // Check the running balance and fix debit/credit from the balance movement
+  const reconciliation = reconcileTransactions(resolveTransactionDates(extracted, profile), {
+    openingBalance: totals.openingBalance
+  });
+  const transactions = reconciliation.transactions.map(transaction => ({
+    ...transaction,
+    confidence: calculateTransactionConfidence(transaction)
+  }));
+  const summary = summarizeReconciliation(reconciliation);
+
+  return {
+    profile,
+    header,
+    totals,
+    transactions,
+    reconciliation: summary,
+    // Cross-check the printed summary block against the parsed rows
+    summaryChecks: verifyStatementTotals(totals, transactions),
+    accuracy: calculateAccuracy(transactions, summary),
+    columnTemplate
+  };
+};
+
+// Parse statement text (newline separated) or pre-split lines
+export const parseStatement = (input: string | string[], options: ParseOptions = {}): ParsedStatement => {
+  const lines = cleanLines(typeof input === 'string' ? input.split(/\r?\n/) : input);
+  const profile = resolveProfile(lines.join('\n'), options);
+
+  return buildStatement(lines, extractTransactions(lines, profile, options), profile, null);
+};
+
+// Parse a document page by page, in page order. A page is either pdf.js text
+// items or plain text (e.g. from OCR). Item pages with a recognisable table
+// header are read column by column; a layout found on one page carries over
+// to following pages that don't repeat the header. In multi-pass mode every
+// strategy reads every page and the rows are put to a vote.
+export const parseStatementPages = (
+  pages: StatementPageInput[],
+  options: TextItemParseOptions = {}
+): ParsedStatement => {
+  const detectColumns = options.detectColumns ?? true;
+  const pageLines = pages.map(toPageLines);
+  const lines = pageLines.flatMap(page => page.lines);
+  const profile = resolveProfile(lines.join('\n'), options);
+
+  let template = options.columnTemplate ?? null;
+  // Multi-pass voting follows the balance from page to page
+  let runningBalance = options.multiPass ? extractStatementTotals(lines.join('\n')).openingBalance?.minor : undefined;
+  const extracted: ExtractedTransaction[] = [];
+
+  pageLines.forEach((reading, index) => {
+    const { itemLines } = reading;
+    // A hand-drawn layout stays put; detected ones follow each new header row
+    if (itemLines && detectColumns && !template?.manual) {
+      template = detectColumnTemplate(itemLines, profile) || template;
+    }
+
+    // Pages are merged separately so page headers never join the last row
+    const context = { profile, template: detectColumns ? template : null, options };
+    let rows: ExtractedTransaction[];
+    if (options.multiPass) {
+      const ocr = options.ocrReadings?.[index];
+      const voted = voteOnRows(runExtractionPasses(reading, ocr ? toPageLines(ocr) : null, context), runningBalance);
+      rows = voted.rows;
+      runningBalance = voted.balance;
+    } else {
+      rows = readPageRows(reading, context);
+    }
+    const source = options.pageMethods?.[index] ?? (itemLines ? 'text' : 'ocr');
+    const page = options.pageNumbers?.[index] ?? index + 1;
+    extracted.push(...rows.map(row => ({ ...row, page, source: row.strategy === 'ocr' ? 'ocr' : source })));
+  });
+
+  const statement = buildStatement(lines, removeDuplicateTransactions(extracted), profile, detectColumns ? template : null);
+  // Locations were taken from page 1, so only that page can be read with them
+  const firstPageItems = pageLines[0]?.itemLines;
+  if (options.headerLocations && (options.pageNumbers?.[0] ?? 1) === 1 && firstPageItems) {
+    statement.header = { ...readHeaderLocations(firstPageItems, options.headerLocations), ...definedHeader(statement.header) };
+  }
+  return statement;
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { row } from "@/test/fixtures";
+import { summarizeStrategies, voteOnRows, type PassRows } from "./passes";
+
+// Opening balance of ₹6,000.00 in paise
+const OPENING = 600000;
+
+const onDay = (day: number) => ({ date: `2024-02-0${day}` });
+
+describe('voteOnRows', () => {
+  it('takes the reading that keeps the running balance going', () => {
+    const passes: PassRows[] = [
+      { strategy: 'generic', rows: [row(100000, 'credit', 750000, onDay(1))] },
+      { strategy: 'ocr', rows: [row(100000, 'credit', 700000, onDay(1))] }
+    ];
+
+    const { rows, balance } = voteOnRows(passes, OPENING);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].strategy).toBe('ocr');
+    expect(rows[0].balance?.minor).toBe(700000);
+    expect(rows[0].agreement).toBe(0.5);
+    expect(balance).toBe(700000);
+  });
+
+  it('records the share of passes that agree with the winner', () => {
+    const passes: PassRows[] = [
+      { strategy: 'profile', rows: [row(100000, 'credit', 700000, onDay(1))] },
+      { strategy: 'generic', rows: [row(100000, 'credit', 700000, onDay(1))] },
+      { strategy: 'columns', rows: [row(100000, 'credit', 700000, onDay(1))] }
+    ];
+
+    const [voted] = voteOnRows(passes, OPENING).rows;
+
+    expect(voted.strategy).toBe('columns');
+    expect(voted.agreement).toBe(1);
+  });
+
+  it('leaves agreement unset when only one pass read the page', () => {
+    const passes: PassRows[] = [
+      { strategy: 'generic', rows: [row(100000, 'credit', 750000, onDay(1))] }
+    ];
+
+    const { rows } = voteOnRows(passes, OPENING);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].agreement).toBeUndefined();
+  });
+
+  it('keeps a row only one pass found that breaks the balance as unconfirmed', () => {
+    const passes: PassRows[] = [
+      {
+        strategy: 'generic',
+        rows: [
+          row(100000, 'credit', 700000, onDay(1)),
+          row(600000, 'credit', 600000, { ...onDay(2), description: 'Balance B/F' }),
+          row(20000, 'debit', 680000, onDay(3))
+        ]
+      },
+      {
+        strategy: 'columns',
+        rows: [row(100000, 'credit', 700000, onDay(1)), row(20000, 'debit', 680000, onDay(3))]
+      }
+    ];
+
+    const { rows, balance } = voteOnRows(passes, OPENING);
+
+    expect(rows.map(transaction => transaction.date)).toEqual(['2024-02-01', '2024-02-02', '2024-02-03']);
+    expect(rows[1]).toMatchObject({ description: 'Balance B/F', strategy: 'generic', agreement: 0.5, unconfirmed: true });
+    expect(rows[2]).toMatchObject({ agreement: 1 });
+    expect(rows[2].unconfirmed).toBeUndefined();
+    expect(balance).toBe(680000);
+  });
+
+  it('keeps a row only one pass found when it fits the balance', () => {
+    const passes: PassRows[] = [
+      {
+        strategy: 'generic',
+        rows: [row(100000, 'credit', 700000, onDay(1)), row(15000, 'debit', 680000, onDay(3))]
+      },
+      {
+        strategy: 'columns',
+        rows: [
+          row(100000, 'credit', 700000, onDay(1)),
+          row(5000, 'debit', 695000, onDay(2)),
+          row(15000, 'debit', 680000, onDay(3))
+        ]
+      }
+    ];
+
+    const { rows } = voteOnRows(passes, OPENING);
+
+    expect(rows.map(transaction => transaction.date)).toEqual(['2024-02-01', '2024-02-02', '2024-02-03']);
+    expect(rows[1]).toMatchObject({ strategy: 'columns', agreement: 0.5 });
+  });
+});
+
+describe('summarizeStrategies', () => {
+  it('counts the rows each pass won, most exact first', () => {
+    const transactions = [
+      row(100, 'debit', undefined, { strategy: 'ocr' }),
+      row(200, 'debit', undefined, { strategy: 'columns' }),
+      row(300, 'debit', undefined, { strategy: 'columns' })
+    ];
+
+    expect(summarizeStrategies(transactions)).toBe('columns 2, ocr 1');
+  });
+
+  it('is empty for single-pass rows', () => {
+    expect(summarizeStrategies([row(100, 'debit')])).toBe('');
+  });
+});
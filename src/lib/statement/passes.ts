@@ -0,0 +1,178 @@
+import { extractColumnTransactions, type ColumnExtractOptions } from "./columns";
+import type { BankProfile } from "./profiles/types";
+import { signedMinor } from "./reconcile";
+import {
+  extractTransactions,
+  parseGenericLine,
+  parseProfileLine,
+  type ExtractOptions,
+  type LineParser
+} from "./transactions";
+import type { ColumnTemplate, ExtractedTransaction, ExtractionStrategy, PdfTextItem } from "./types";
+
+// Ties between equally good readings go to the more exact pass
+const STRATEGY_PRIORITY: ExtractionStrategy[] = ['columns', 'profile', 'generic', 'ocr'];
+
+// Rounding allowed when checking a balance, in minor units
+const BALANCE_TOLERANCE = 1;
+
+// A page's non-blank text lines and, when it has positions, the items of
+// those lines plus every grouped item line for column reading
+export interface PageLines {
+  lines: string[];
+  lineItems?: PdfTextItem[][];
+  itemLines?: PdfTextItem[][];
+}
+
+export interface PassContext {
+  profile: BankProfile | null;
+  // Column layout in force on the page, if column reading is on
+  template: ColumnTemplate | null;
+  options?: ExtractOptions & ColumnExtractOptions;
+}
+
+export interface PassRows {
+  strategy: ExtractionStrategy;
+  rows: ExtractedTransaction[];
+}
+
+interface Candidate {
+  strategy: ExtractionStrategy;
+  transaction: ExtractedTransaction;
+}
+
+// A page read the single-pass way: by column when there's a layout,
+// otherwise line by line
+export const readPageRows = (page: PageLines, context: PassContext, lineParser?: LineParser): ExtractedTransaction[] =>
+  page.itemLines && context.template
+    ? extractColumnTransactions(page.itemLines, context.template, context.profile, context.options)
+    : extractTransactions(page.lines, context.profile, { ...context.options, lineItems: page.lineItems, lineParser });
+
+// Every strategy that reads something from the page. `ocr` is the OCR reading
+// of a page whose text layer is `page`, when one was made.
+export const runExtractionPasses = (page: PageLines, ocr: PageLines | null, context: PassContext): PassRows[] => {
+  const byLine = (lineParser: LineParser) =>
+    extractTransactions(page.lines, context.profile, { ...context.options, lineItems: page.lineItems, lineParser });
+  const passes: PassRows[] = [
+    { strategy: 'profile', rows: context.profile ? byLine(parseProfileLine) : [] },
+    { strategy: 'generic', rows: byLine(parseGenericLine) },
+    {
+      strategy: 'columns',
+      rows: page.itemLines && context.template
+        ? extractColumnTransactions(page.itemLines, context.template, context.profile, context.options)
+        : []
+    },
+    { strategy: 'ocr', rows: ocr ? readPageRows(ocr, context) : [] }
+  ];
+  return passes.filter(pass => pass.rows.length > 0);
+};
+
+const compactDate = (transaction: ExtractedTransaction): string =>
+  (transaction.rawDate ?? transaction.date).replace(/\s+/g, '').toLowerCase();
+
+// Two passes found the same statement row when it sits on the same line of
+// the page or, without positions, has the same date and amount
+const sameRow = (a: ExtractedTransaction, b: ExtractedTransaction): boolean => {
+  const boxA = a.fieldBounds?.date ?? a.fieldBounds?.amount;
+  const boxB = b.fieldBounds?.date ?? b.fieldBounds?.amount;
+  if (boxA && boxB) {
+    const tolerance = Math.max(boxA.y1 - boxA.y0, boxB.y1 - boxB.y0) / 2;
+    return Math.abs((boxA.y0 + boxA.y1) / 2 - (boxB.y0 + boxB.y1) / 2) <= tolerance;
+  }
+  return compactDate(a) === compactDate(b) && a.amount.minor === b.amount.minor;
+};
+
+// Two readings of a row agree when date, amount and balance all match
+const agrees = (a: ExtractedTransaction, b: ExtractedTransaction): boolean =>
+  compactDate(a) === compactDate(b) &&
+  a.amount.minor === b.amount.minor &&
+  a.balance?.minor === b.balance?.minor;
+
+// Group the passes' rows by statement row, in page order. A row no earlier
+// pass found goes in after the slot of the same pass's previous row.
+const alignPasses = (passes: PassRows[]): Candidate[][] => {
+  const slots: Candidate[][] = [];
+  for (const { strategy, rows } of passes) {
+    let last = -1;
+    for (const transaction of rows) {
+      const index = slots.findIndex((slot, position) =>
+        position > last &&
+        !slot.some(candidate => candidate.strategy === strategy) &&
+        slot.some(candidate => sameRow(candidate.transaction, transaction))
+      );
+      if (index === -1) {
+        slots.splice(++last, 0, [{ strategy, transaction }]);
+      } else {
+        slots[index].push({ strategy, transaction });
+        last = index;
+      }
+    }
+  }
+  return slots;
+};
+
+// 2 when the row's balance follows from the running balance, 1 when that
+// can't be checked, 0 when it breaks. Either direction counts, since
+// reconciliation settles debit/credit afterwards.
+const continuity = (transaction: ExtractedTransaction, runningBalance: number | undefined): number => {
+  if (runningBalance === undefined || !transaction.balance) return 1;
+  const movement = Math.abs(transaction.balance.minor - runningBalance);
+  return Math.abs(movement - transaction.amount.minor) <= BALANCE_TOLERANCE ? 2 : 0;
+};
+
+export interface VotedRows {
+  rows: ExtractedTransaction[];
+  // Running balance after the last row, in minor units, when known
+  balance?: number;
+}
+
+// Pick one reading per statement row: the one that keeps the running balance
+// going, then the one most other passes agree with, then the more exact pass.
+// Each row records the winning strategy and the share of passes behind it. A
+// row only one of several passes found that breaks the balance is kept for
+// review as unconfirmed, without moving the running balance.
+export const voteOnRows = (passes: PassRows[], openingBalance?: number): VotedRows => {
+  const rows: ExtractedTransaction[] = [];
+  let balance = openingBalance;
+
+  for (const slot of alignPasses(passes)) {
+    const ranked = slot
+      .map(candidate => ({
+        candidate,
+        fit: continuity(candidate.transaction, balance),
+        support: slot.filter(other => other !== candidate && agrees(other.transaction, candidate.transaction)).length
+      }))
+      .sort((a, b) =>
+        b.fit - a.fit ||
+        b.support - a.support ||
+        STRATEGY_PRIORITY.indexOf(a.candidate.strategy) - STRATEGY_PRIORITY.indexOf(b.candidate.strategy)
+      );
+    const { candidate, fit, support } = ranked[0];
+    const { transaction, strategy } = candidate;
+    const unconfirmed = passes.length > 1 && slot.length === 1 && fit === 0;
+
+    rows.push({
+      ...transaction,
+      strategy,
+      // A page only one pass could read has nothing to agree with
+      agreement: passes.length > 1 ? (support + 1) / passes.length : undefined,
+      ...(unconfirmed && { unconfirmed })
+    });
+    if (unconfirmed) continue;
+    if (transaction.balance) balance = transaction.balance.minor;
+    else if (balance !== undefined) balance += signedMinor(transaction);
+  }
+
+  return { rows, balance };
+};
+
+// How many rows each pass won, e.g. "columns 42, ocr 3"; empty for single-pass rows
+export const summarizeStrategies = (transactions: ExtractedTransaction[]): string => {
+  const wins = new Map<ExtractionStrategy, number>();
+  for (const { strategy } of transactions) {
+    if (strategy) wins.set(strategy, (wins.get(strategy) ?? 0) + 1);
+  }
+  return STRATEGY_PRIORITY.filter(strategy => wins.has(strategy))
+    .map(strategy => `${strategy} ${wins.get(strategy)}`)
+    .join(', ');
+};
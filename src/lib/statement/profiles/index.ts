@@ -0,0 +1,13 @@
+import { registerBankProfile } from "./registry";
+import type { BankProfileDefinition } from "./types";
+
+// Every JSON file in ./banks is registered as a built-in profile
+const builtInProfiles = import.meta.glob<BankProfileDefinition>('./banks/*.json', {
+  eager: true,
+  import: 'default'
+});
+
+Object.values(builtInProfiles).forEach(definition => registerBankProfile(definition));
+
+export * from "./registry";
+export type * from "./types";
@@ -0,0 +1,158 @@
+import type {
+  AmountFormat,
+  BankDetectionResult,
+  BankProfile,
+  BankProfileDefinition,
+  HeaderFieldPatterns
+} from "./types";
+
+const DEFAULT_AMOUNT_FORMAT: AmountFormat = { grouping: 'indian', decimalSeparator: '.' };
+
+// Bank names also show up in other banks' narrations (e.g. NEFT from an HDFC
+// account), so matches outside the statement header count for less
+const HEADER_REGION_LENGTH = 3000;
+const BODY_MATCH_FACTOR = 0.5;
+const IFSC_MATCH_WEIGHT = 10;
+
+const DATE_TOKENS: Record<string, string> = {
+  YYYY: '\\d{4}',
+  YY: '\\d{2}',
+  MMM: '[A-Za-z]{3}',
+  MM: '\\d{2}',
+  M: '\\d{1,2}',
+  DD: '\\d{2}',
+  D: '\\d{1,2}'
+};
+
+const registry = new Map<string, BankProfile>();
+
+// Turn a format such as "DD-MMM-YYYY" into a regex source
+export const dateFormatToPattern = (format: string): string =>
+  format
+    .replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&')
+    .replace(/\s+/g, '\\s')
+    .replace(/YYYY|YY|MMM|MM|M|DD|D/g, token => DATE_TOKENS[token]);
+
+export const amountFormatToPattern = ({ grouping, decimalSeparator }: AmountFormat): string => {
+  const thousands = decimalSeparator === '.' ? ',' : '\\.';
+  const decimal = decimalSeparator === '.' ? '\\.' : ',';
+  const group = grouping === 'indian' ? '\\d{2,3}' : '\\d{3}';
+  return `\\d{1,3}(?:${thousands}${group})*${decimal}\\d{2}`;
+};
+
+const compilePatterns = (sources: string[] | undefined, flags = 'i'): RegExp[] =>
+  (sources || []).map(source => new RegExp(source, flags));
+
+const compareVersions = (a: string, b: string): number => {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+export const compileBankProfile = (definition: BankProfileDefinition): BankProfile => {
+  const invalid = (reason: string) => new Error(`Invalid bank profile "${definition?.id ?? 'unknown'}": ${reason}`);
+
+  if (!definition || typeof definition.id !== 'string' || !definition.id) throw invalid('missing id');
+  if (typeof definition.name !== 'string' || !definition.name) throw invalid('missing name');
+  if (!/^\d+(\.\d+)*$/.test(definition.version || '')) throw invalid('version must look like 1.0.0');
+  if (!Array.isArray(definition.detection?.keywords)) throw invalid('detection.keywords must be an array');
+  if (!Array.isArray(definition.dateFormats) || definition.dateFormats.length === 0) {
+    throw invalid('dateFormats must list at least one format');
+  }
+
+  const amountFormat = definition.amountFormat || DEFAULT_AMOUNT_FORMAT;
+  const amountSource = amountFormatToPattern(amountFormat);
+  const dateSources = definition.dateFormats.map(dateFormatToPattern);
+  const transactionLine = definition.transactionLine
+    ? new RegExp(definition.transactionLine)
+    : new RegExp(
+        `^(${dateSources.join('|')})\\s+(.+?)\\s+(${amountSource})\\s*([CcDd][Rr])?\\.?\\s*(${amountSource})?`
+      );
+
+  const headerFields = definition.headerFields || {};
+  const compiledHeaderFields = {} as Record<keyof HeaderFieldPatterns, RegExp[]>;
+  for (const field of ['accountNumber', 'accountHolder', 'statementPeriod'] as const) {
+    compiledHeaderFields[field] = compilePatterns(headerFields[field]);
+  }
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    version: definition.version,
+    definition,
+    detectionKeywords: definition.detection.keywords.map(keyword => ({
+      pattern: new RegExp(keyword.pattern, 'i'),
+      weight: keyword.weight
+    })),
+    ifscPrefixes: (definition.detection.ifscPrefixes || []).map(prefix => prefix.toUpperCase()),
+    dateFormats: definition.dateFormats,
+    datePatterns: dateSources.map(source => new RegExp(`(${source})`, 'g')),
+    amountFormat,
+    amountPattern: new RegExp(`(${amountSource})`, 'g'),
+    columns: definition.columns || [],
+    transactionLine,
+    referencePatterns: compilePatterns(definition.referencePatterns),
+    headerFields: compiledHeaderFields,
+    creditKeywords: (definition.creditKeywords || []).map(keyword => keyword.toLowerCase()),
+    debitKeywords: (definition.debitKeywords || []).map(keyword => keyword.toLowerCase())
+  };
+};
+
+// Register a profile; an older version never replaces a newer one
+export const registerBankProfile = (definition: BankProfileDefinition): BankProfile => {
+  const profile = compileBankProfile(definition);
+  const existing = registry.get(profile.id);
+
+  if (!existing || compareVersions(profile.version, existing.version) >= 0) {
+    registry.set(profile.id, profile);
+  }
+
+  return registry.get(profile.id)!;
+};
+
+export const loadBankProfileJson = (json: string): BankProfile =>
+  registerBankProfile(JSON.parse(json) as BankProfileDefinition);
+
+export const getBankProfiles = (): BankProfile[] => Array.from(registry.values());
+
+export const getBankProfile = (id: string): BankProfile | null => registry.get(id) || null;
+
+const scoreProfile = (profile: BankProfile, header: string, body: string, ifscCodes: string[]): number => {
+  let score = 0;
+
+  for (const keyword of profile.detectionKeywords) {
+    if (keyword.pattern.test(header)) {
+      score += keyword.weight;
+    } else if (keyword.pattern.test(body)) {
+      score += keyword.weight * BODY_MATCH_FACTOR;
+    }
+  }
+
+  if (ifscCodes.some(code => profile.ifscPrefixes.includes(code.slice(0, 4)))) {
+    score += IFSC_MATCH_WEIGHT;
+  }
+
+  return score;
+};
+
+// Score every registered profile and pick the strongest match
+export const detectBankProfile = (text: string): BankDetectionResult => {
+  const header = text.slice(0, HEADER_REGION_LENGTH);
+  const body = text.slice(HEADER_REGION_LENGTH);
+  const ifscCodes = header.toUpperCase().match(/\b[A-Z]{4}0[A-Z0-9]{6}\b/g) || [];
+
+  const scores = getBankProfiles()
+    .map(profile => ({ id: profile.id, score: scoreProfile(profile, header, body, ifscCodes) }))
+    .sort((a, b) => b.score - a.score);
+
+  const best = scores[0];
+  return {
+    profile: best && best.score > 0 ? registry.get(best.id)! : null,
+    score: best?.score || 0,
+    scores
+  };
+};
@@ -0,0 +1,83 @@
+// Bank profiles describe how one bank lays out its statements. Definitions are
+// plain JSON so new banks can be added without touching the parser.
+
+export type ColumnRole =
+  | 'date'
+  | 'valueDate'
+  | 'description'
+  | 'reference'
+  | 'debit'
+  | 'credit'
+  | 'amount'
+  | 'drCr'
+  | 'balance';
+
+export interface ColumnDefinition {
+  role: ColumnRole;
+  // Header labels printed for this column, matched case-insensitively
+  labels: string[];
+}
+
+export interface AmountFormat {
+  // Indian grouping is 1,00,000.00; international is 100,000.00
+  grouping: 'indian' | 'international';
+  decimalSeparator: '.' | ',';
+}
+
+export interface DetectionKeyword {
+  pattern: string;
+  weight: number;
+}
+
+export interface HeaderFieldPatterns {
+  accountNumber?: string[];
+  accountHolder?: string[];
+  statementPeriod?: string[];
+}
+
+// Shape of a profile JSON file
+export interface BankProfileDefinition {
+  id: string;
+  name: string;
+  version: string;
+  detection: {
+    keywords: DetectionKeyword[];
+    ifscPrefixes?: string[];
+  };
+  // Tokens: DD, D, MM, M, MMM, YYYY, YY
+  dateFormats: string[];
+  amountFormat?: AmountFormat;
+  columns?: ColumnDefinition[];
+  referencePatterns?: string[];
+  headerFields?: HeaderFieldPatterns;
+  creditKeywords?: string[];
+  debitKeywords?: string[];
+  // Overrides the line pattern built from dateFormats and amountFormat
+  transactionLine?: string;
+}
+
+// Profile with its patterns compiled, ready for parsing
+export interface BankProfile {
+  id: string;
+  name: string;
+  version: string;
+  definition: BankProfileDefinition;
+  detectionKeywords: { pattern: RegExp; weight: number }[];
+  ifscPrefixes: string[];
+  dateFormats: string[];
+  datePatterns: RegExp[];
+  amountFormat: AmountFormat;
+  amountPattern: RegExp;
+  columns: ColumnDefinition[];
+  transactionLine: RegExp;
+  referencePatterns: RegExp[];
+  headerFields: Record<keyof HeaderFieldPatterns, RegExp[]>;
+  creditKeywords: string[];
+  debitKeywords: string[];
+}
+
+export interface BankDetectionResult {
+  profile: BankProfile | null;
+  score: number;
+  scores: { id: string; score: number }[];
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { money } from "./money";
+import { reconcileTransactions } from "./reconcile";
+import { row } from "@/test/fixtures";
+
+describe('reconcileTransactions', () => {
+  it('checks each printed balance against the running balance', () => {
+    const result = reconcileTransactions([
+      row(100000, 'debit', 500000),
+      row(200000, 'credit', 700000),
+      row(50000, 'debit', 650000)
+    ], { openingBalance: money(600000) });
+    expect(result.transactions.map(transaction => transaction.balanceCheck)).toEqual(['ok', 'ok', 'ok']);
+    expect(result.checkedCount).toBe(3);
+    expect(result.isBalanced).toBe(true);
+  });
+
+  it('leaves the first row unchecked without an opening balance', () => {
+    const result = reconcileTransactions([row(100000, 'debit', 500000), row(200000, 'credit', 700000)]);
+    expect(result.transactions.map(transaction => transaction.balanceCheck)).toEqual(['unchecked', 'ok']);
+  });
+
+  it('flips a debit the balance shows was a credit', () => {
+    const result = reconcileTransactions([row(100000, 'debit', 500000), row(200000, 'debit', 700000)]);
+    expect(result.transactions[1]).toMatchObject({ type: 'credit', balanceCheck: 'corrected' });
+    expect(result.issues[0].kind).toBe('type-corrected');
+    expect(result.isBalanced).toBe(true);
+  });
+
+  it('keeps the type when auto-correction is off', () => {
+    const result = reconcileTransactions(
+      [row(100000, 'debit', 500000), row(200000, 'debit', 700000)],
+      { autoCorrectType: false }
+    );
+    expect(result.transactions[1]).toMatchObject({ type: 'debit', balanceCheck: 'break' });
+  });
+
+  it('carries a derived balance over rows without one', () => {
+    const result = reconcileTransactions([
+      row(100000, 'debit', 500000),
+      row(50000, 'debit'),
+      row(50000, 'debit', 400000)
+    ]);
+    expect(result.transactions.map(transaction => transaction.balanceCheck)).toEqual(['unchecked', 'unchecked', 'ok']);
+  });
+
+  it('drops a row repeated with the same balance', () => {
+    const result = reconcileTransactions([
+      row(100000, 'debit', 500000),
+      row(100000, 'debit', 500000)
+    ]);
+    expect(result.transactions).toHaveLength(1);
+    expect(result.issues[0].kind).toBe('duplicate');
+  });
+
+  it('resyncs on the printed balance so one break does not cascade', () => {
+    const result = reconcileTransactions([
+      row(100000, 'debit', 500000),
+      row(200000, 'credit', 750000),
+      row(50000, 'debit', 700000),
+      row(100000, 'debit', 700000)
+    ]);
+    expect(result.transactions.map(transaction => transaction.balanceCheck)).toEqual(['unchecked', 'break', 'ok', 'break']);
+    expect(result.isBalanced).toBe(false);
+  });
+
+  it('flags a breaking row only one pass found without resyncing on it', () => {
+    const result = reconcileTransactions([
+      row(100000, 'credit', 700000),
+      row(600000, 'credit', 600000, { description: 'Balance B/F', unconfirmed: true }),
+      row(20000, 'debit', 680000)
+    ], { openingBalance: money(600000) });
+    expect(result.transactions.map(transaction => transaction.balanceCheck)).toEqual(['ok', 'break', 'ok']);
+    expect(result.issues).toEqual([expect.objectContaining({ kind: 'unconfirmed', index: 1 })]);
+    expect(result.issues[0].message).toBe(
+      'Row 2 was found by only one extraction pass and breaks the balance; delete it unless it is on the statement'
+    );
+  });
+
+  it('checks an accepted unconfirmed row like any other', () => {
+    const result = reconcileTransactions([
+      row(100000, 'credit', 700000),
+      row(600000, 'credit', 600000, { unconfirmed: true, reviewed: true })
+    ], { openingBalance: money(600000) });
+    expect(result.issues.map(issue => issue.kind)).toEqual(['break']);
+  });
+
+  describe('a break followed by a good row', () => {
+    const issueAfter = (amount: number, type: 'debit' | 'credit') =>
+      reconcileTransactions([
+        row(100000, 'debit', 500000),
+        row(amount, type, 712000),
+        row(50000, 'debit', 662000)
+      ], { autoCorrectType: false }).issues[0];
+
+    it('is a missing row when the gap is unrelated to the amount', () => {
+      const issue = issueAfter(150000, 'credit');
+      expect(issue.kind).toBe('missing');
+      expect(issue.message).toMatch(/620\.00 credit is unaccounted for/);
+    });
+
+    it.each([
+      ['one digit misread', 213000, 'credit'],
+      ['neighbouring digits swapped', 221000, 'credit'],
+      ['a digit dropped', 21200, 'credit'],
+      ['debit and credit flipped', 212000, 'debit']
+    ] as const)('stays a break for %s', (_, amount, type) => {
+      expect(issueAfter(amount, type).kind).toBe('break');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { formatMoney, money, type Money } from "./money";
+import type {
+  ExtractedTransaction,
+  ReconciliationIssue,
+  ReconciliationResult,
+  ReconciliationSummary
+} from "./types";
+
+export interface ReconcileOptions {
+  // Balance before the first transaction, when the statement prints one
+  openingBalance?: Money;
+  // Allowed rounding difference in minor units (paise)
+  tolerance?: number;
+  // Flip debit/credit when the balance movement says the type is wrong
+  autoCorrectType?: boolean;
+  // Drop rows repeated with the same balance, as page overlaps produce
+  removeDuplicates?: boolean;
+}
+
+// Balance movement of a row in minor units
+export const signedMinor = (transaction: ExtractedTransaction): number =>
+  (transaction.type === 'credit' ? 1 : -1) * transaction.amount.minor;
+
+// A repeated row carrying the same balance cannot be a real transaction,
+// because a non-zero amount always moves the balance
+const isDuplicateRow = (previous: ExtractedTransaction, current: ExtractedTransaction): boolean =>
+  previous.balance !== undefined &&
+  current.balance !== undefined &&
+  previous.balance.minor === current.balance.minor &&
+  previous.amount.minor === current.amount.minor &&
+  current.amount.minor !== 0 &&
+  previous.date === current.date &&
+  previous.description.trim() === current.description.trim();
+
+// Whether `read` could be `actual` with one digit misread, two neighbouring
+// digits swapped, or a digit dropped or doubled (both in minor units)
+const isDigitMisread = (read: number, actual: number): boolean => {
+  const a = String(Math.abs(read));
+  const b = String(Math.abs(actual));
+  if (a === b) return true;
+  if (a.length === b.length) {
+    const differing = [...a].flatMap((digit, index) => (digit !== b[index] ? [index] : []));
+    if (differing.length === 1) return true;
+    const [first, second] = differing;
+    return differing.length === 2 && second === first + 1 && a[first] === b[second] && a[second] === b[first];
+  }
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  return longer.length === shorter.length + 1 &&
+    [...longer].some((_, index) => longer.slice(0, index) + longer.slice(index + 1) === shorter);
+};
+
+// When the chain resumes right after a break, the printed balance was right.
+// The gap is then either the row's own amount misread (or its debit/credit
+// flipped), which stays a break, or an unseen transaction between two rows.
+const classifyMissingRows = (transactions: ExtractedTransaction[], issues: ReconciliationIssue[]) => {
+  for (const issue of issues) {
+    if (issue.kind !== 'break') continue;
+
+    const next = transactions.slice(issue.index + 1).find(t => t.balanceCheck !== 'unchecked');
+    if (!next || next.balanceCheck === 'break') continue;
+
+    const gap = issue.difference?.minor ?? 0;
+    // What the balance says the row moved, against what was read
+    const movement = gap + signedMinor(transactions[issue.index]);
+    if (isDigitMisread(transactions[issue.index].amount.minor, movement)) continue;
+
+    issue.kind = 'missing';
+    issue.message = `Between rows ${issue.index} and ${issue.index + 1}: ` +
+      `${formatMoney(money(Math.abs(gap), issue.difference?.currency))} ` +
+      `${gap > 0 ? 'credit' : 'debit'} is unaccounted for; a row may have been dropped`;
+  }
+};
+
+// Walk transactions in statement order and check previous balance ± amount
+// against each printed balance
+export const reconcileTransactions = (
+  transactions: ExtractedTransaction[],
+  options: ReconcileOptions = {}
+): ReconciliationResult => {
+  const tolerance = options.tolerance ?? 1;
+  const autoCorrectType = options.autoCorrectType ?? true;
+  const removeDuplicates = options.removeDuplicates ?? true;
+
+  const reconciled: ExtractedTransaction[] = [];
+  const issues: ReconciliationIssue[] = [];
+  let runningBalance = options.openingBalance?.minor;
+  let checkedCount = 0;
+  let matchedCount = 0;
+
+  for (const original of transactions) {
+    const previous = reconciled[reconciled.length - 1];
+    if (removeDuplicates && previous && isDuplicateRow(previous, original)) {
+      issues.push({
+        kind: 'duplicate',
+        index: reconciled.length - 1,
+        message: `Row ${reconciled.length} appears twice with the same balance; the repeat was removed`
+      });
+      continue;
+    }
+
+    const transaction: ExtractedTransaction = { ...original };
+    const index = reconciled.length;
+    reconciled.push(transaction);
+
+    if (transaction.balance === undefined) {
+      // Carry a derived balance forward so the next printed balance can still be checked
+      transaction.balanceCheck = 'unchecked';
+      if (runningBalance !== undefined) runningBalance += signedMinor(transaction);
+      continue;
+    }
+
+    const currency = transaction.balance.currency;
+    const actual = transaction.balance.minor;
+    if (runningBalance === undefined) {
+      transaction.balanceCheck = 'unchecked';
+      runningBalance = actual;
+      continue;
+    }
+
+    checkedCount++;
+    const movement = actual - runningBalance;
+    const signed = signedMinor(transaction);
+
+    if (Math.abs(movement - signed) <= tolerance) {
+      transaction.balanceCheck = 'ok';
+      matchedCount++;
+    } else if (autoCorrectType && signed !== 0 && Math.abs(movement + signed) <= tolerance) {
+      const corrected = transaction.type === 'credit' ? 'debit' : 'credit';
+      issues.push({
+        kind: 'type-corrected',
+        index,
+        expectedBalance: money(runningBalance + signed, currency),
+        actualBalance: transaction.balance,
+        message: `Row ${index + 1} changed from ${transaction.type} to ${corrected} to match the balance`
+      });
+      transaction.type = corrected;
+      transaction.balanceCheck = 'corrected';
+      matchedCount++;
+    } else if (transaction.unconfirmed && !transaction.reviewed) {
+      issues.push({
+        kind: 'unconfirmed',
+        index,
+        actualBalance: transaction.balance,
+        message: `Row ${index + 1} was found by only one extraction pass and breaks the balance; ` +
+          'delete it unless it is on the statement'
+      });
+      transaction.balanceCheck = 'break';
+      // Likelier junk than a misread balance, so the chain carries on past it
+      continue;
+    } else {
+      const expected = runningBalance + signed;
+      issues.push({
+        kind: 'break',
+        index,
+        expectedBalance: money(expected, currency),
+        actualBalance: transaction.balance,
+        difference: money(actual - expected, currency),
+        message: `Row ${index + 1}: expected balance ${formatMoney(money(expected, currency))}, ` +
+          `statement shows ${formatMoney(transaction.balance)}`
+      });
+      transaction.balanceCheck = 'break';
+    }
+
+    // Resync on the printed balance so one break does not cascade
+    runningBalance = actual;
+  }
+
+  classifyMissingRows(reconciled, issues);
+
+  return {
+    transactions: reconciled,
+    issues,
+    checkedCount,
+    matchedCount,
+    isBalanced: checkedCount > 0 && issues.every(issue => issue.kind === 'type-corrected')
+  };
+};
+
+export const summarizeReconciliation = ({ transactions, ...summary }: ReconciliationResult): ReconciliationSummary =>
+  summary;
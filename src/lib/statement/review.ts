@@ -0,0 +1,50 @@
+import { cellConfidence, cellHoldsValue, EDITABLE_COLUMNS, type EditableColumn } from "./edits";
+import type { ExtractedTransaction } from "./types";
+
+const STORAGE_KEY = 'statement-review-threshold';
+
+// Rows with a cell read below this confidence (0–1) wait for review
+export const DEFAULT_REVIEW_THRESHOLD = 0.7;
+
+// Choices offered for the review threshold
+export const REVIEW_THRESHOLDS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+// The threshold last chosen in either converter, so both queue the same rows
+export const loadReviewThreshold = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(STORAGE_KEY));
+    return REVIEW_THRESHOLDS.includes(stored) ? stored : DEFAULT_REVIEW_THRESHOLD;
+  } catch (error) {
+    return DEFAULT_REVIEW_THRESHOLD;
+  }
+};
+
+export const saveReviewThreshold = (threshold: number) => {
+  localStorage.setItem(STORAGE_KEY, String(threshold));
+};
+
+// Cells of a row read with less confidence than `threshold` (0–1)
+export const lowConfidenceColumns = (transaction: ExtractedTransaction, threshold: number): EditableColumn[] =>
+  EDITABLE_COLUMNS.filter(column =>
+    cellHoldsValue(transaction, column) && cellConfidence(transaction, column) < threshold
+  );
+
+// A row is queued for review until it is accepted, or until every doubtful
+// cell has been typed over
+export const needsReview = (transaction: ExtractedTransaction, threshold: number): boolean =>
+  !transaction.reviewed && lowConfidenceColumns(transaction, threshold).length > 0;
+
+// Indexes of the rows still waiting for review, top to bottom
+export const reviewQueue = (transactions: ExtractedTransaction[], threshold: number): number[] =>
+  transactions.flatMap((transaction, index) => (needsReview(transaction, threshold) ? [index] : []));
+
+// The queued row after `index` (or before it for step -1), wrapping round;
+// null once the queue is empty
+export const stepReviewQueue = (queue: number[], index: number | null, step: 1 | -1 = 1): number | null => {
+  if (queue.length === 0) return null;
+  if (step === 1) return queue.find(row => index === null || row > index) ?? queue[0];
+  return [...queue].reverse().find(row => index === null || row < index) ?? queue[queue.length - 1];
+};
+
+export const acceptTransaction = (transactions: ExtractedTransaction[], index: number): ExtractedTransaction[] =>
+  transactions.map((transaction, position) => (position === index ? { ...transaction, reviewed: true } : transaction));
@@ -0,0 +1,30 @@
+import { currencyNumberFormat, isMoney, moneyToDecimal, moneyToNumber, type Money } from "./money";
+
+export type SheetValue = string | number | Money | null | undefined;
+export type SheetFormat = 'xlsx' | 'csv';
+
+// SheetJS cell object; aoa_to_sheet keeps its number format
+export interface SheetCell {
+  t: 'n' | 's';
+  v: number | string;
+  z?: string;
+}
+
+// Money becomes a real number with a currency format in spreadsheets, and
+// exact decimal text in CSV where a number format would only add symbols
+export const toSheetCell = (value: SheetValue, format: SheetFormat): SheetCell | string | number => {
+  if (isMoney(value)) {
+    if (format === 'csv') return moneyToDecimal(value);
+    return { t: 'n', v: moneyToNumber(value), z: currencyNumberFormat(value.currency) };
+  }
+  return value ?? '';
+};
+
+export const toSheetRows = (rows: SheetValue[][], format: SheetFormat = 'xlsx'): (SheetCell | string | number)[][] =>
+  rows.map(row => row.map(value => toSheetCell(value, format)));
+
+// Header row from the first record's keys, then one row per record
+export const recordsToSheetRows = (records: Record<string, SheetValue>[]): SheetValue[][] => {
+  const headers = Object.keys(records[0] || {});
+  return [headers, ...records.map(record => headers.map(header => record[header]))];
+};
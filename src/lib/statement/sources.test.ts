@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { row } from "@/test/fixtures";
+import { mergeTransactions } from "./edits";
+import { findTransactionAt, transactionBounds } from "./sources";
+
+const box = (x0: number, y0: number, x1: number, y1: number) => ({ x0, y0, x1, y1 });
+
+// A narration wrapped onto a second row, as read from page 1
+const wrapped = () => [
+  row(0, 'debit', undefined, { page: 1, description: 'NEFT from', fieldBounds: { description: box(120, 677, 200, 690) } }),
+  row(100000, 'credit', 700000, {
+    page: 1,
+    description: 'Acme Ltd',
+    fieldBounds: { description: box(120, 657, 180, 670), amount: box(380, 657, 420, 670), balance: box(460, 657, 500, 670) }
+  })
+];
+
+describe('transactionBounds', () => {
+  it('boxes the fields that were located and skips the rest', () => {
+    const transaction = row(100000, 'credit', 700000, {
+      fieldBounds: { description: box(120, 677, 200, 690), amount: undefined }
+    });
+    expect(transactionBounds(transaction)).toEqual(box(120, 677, 200, 690));
+  });
+});
+
+describe('findTransactionAt', () => {
+  it('finds a merged row from a click on either of its lines', () => {
+    const merged = mergeTransactions(wrapped(), 0);
+    expect(findTransactionAt(merged, 1, 150, 685)).toBe(0);
+    expect(findTransactionAt(merged, 1, 480, 660)).toBe(0);
+  });
+
+  it('misses clicks on another page or outside every row', () => {
+    const rows = wrapped();
+    expect(findTransactionAt(rows, 2, 150, 685)).toBe(-1);
+    expect(findTransactionAt(rows, 1, 150, 600)).toBe(-1);
+  });
+});
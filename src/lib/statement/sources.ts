@@ -0,0 +1,77 @@
+import { parseAmount } from "./amounts";
+import { boundingBox, itemBox, mergeBoxes } from "./lines";
+import type { ExtractedTransaction, FieldBounds, PdfTextItem, TableRegion } from "./types";
+
+// Points of slack around a box when hit-testing a click
+const HIT_SLACK = 2;
+
+// An item that holds nothing but this amount, sign and Dr/Cr aside
+const isAmountItem = (item: PdfTextItem, minor: number): boolean => {
+  const token = parseAmount(item.str);
+  return token !== null && Math.abs(token.value.minor) === Math.abs(minor) && token.text.trim() === item.str.trim();
+};
+
+// Where a row's fields sit in the line it was read from, for rows matched
+// as text rather than by column. Fields that can't be told apart from their
+// neighbours (one item holding the whole line) fall to the description.
+export const locateLineFields = (line: PdfTextItem[], transaction: ExtractedTransaction): FieldBounds => {
+  const remaining = [...line];
+  const bounds: FieldBounds = {};
+  const take = (item: PdfTextItem | undefined): TableRegion | undefined => {
+    if (!item) return undefined;
+    remaining.splice(remaining.indexOf(item), 1);
+    return itemBox(item);
+  };
+
+  // Balance is printed last and the amount before it, so look from the right
+  const fromRight = (minor: number) => [...remaining].reverse().find(item => isAmountItem(item, minor));
+  if (transaction.balance) bounds.balance = take(fromRight(transaction.balance.minor));
+  bounds.amount = take(fromRight(transaction.amount.minor));
+
+  // A date may be split over items ("01", "Jan", "2024")
+  const rawDate = transaction.rawDate ?? transaction.date;
+  const dateItems: PdfTextItem[] = [];
+  for (const item of remaining) {
+    if (!rawDate.includes(item.str.trim())) break;
+    dateItems.push(item);
+  }
+  dateItems.forEach(take);
+  bounds.date = boundingBox(dateItems);
+
+  if (transaction.reference) {
+    bounds.reference = take(remaining.find(item => item.str.trim() === transaction.reference));
+  }
+  bounds.description = boundingBox(remaining);
+
+  return Object.fromEntries(Object.entries(bounds).filter(([, box]) => box)) as FieldBounds;
+};
+
+// A wrapped narration line grows the description's box
+export const extendDescriptionBounds = (transaction: ExtractedTransaction, line: PdfTextItem[]) => {
+  const box = boundingBox(line);
+  if (!box || !transaction.fieldBounds) return;
+  transaction.fieldBounds = {
+    ...transaction.fieldBounds,
+    description: mergeBoxes(transaction.fieldBounds.description, box)
+  };
+};
+
+// Box around every field of the row that was located
+export const transactionBounds = (transaction: ExtractedTransaction): TableRegion | undefined =>
+  Object.values(transaction.fieldBounds || {}).filter(Boolean).reduce<TableRegion | undefined>(mergeBoxes, undefined);
+
+const contains = (box: TableRegion, x: number, y: number): boolean =>
+  x >= box.x0 - HIT_SLACK && x <= box.x1 + HIT_SLACK && y >= box.y0 - HIT_SLACK && y <= box.y1 + HIT_SLACK;
+
+// The row read from the point (x, y) of a page, in PDF points, or -1
+export const findTransactionAt = (
+  transactions: ExtractedTransaction[],
+  page: number,
+  x: number,
+  y: number
+): number =>
+  transactions.findIndex(transaction => {
+    if (transaction.page !== page) return false;
+    const box = transactionBounds(transaction);
+    return box !== undefined && contains(box, x, y);
+  });
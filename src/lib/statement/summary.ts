@@ -0,0 +1,137 @@
+import { parseAmount } from "./amounts";
+import { absMoney, money, negateMoney, subtractMoney, sumMoney, type Money } from "./money";
+import { signedMinor } from "./reconcile";
+import type { ExtractedTransaction, StatementTotals, SummaryCheck } from "./types";
+
+type TotalsKey = keyof StatementTotals;
+
+// Labels seen in the summary blocks of SBI, HDFC, ICICI and Axis statements.
+// Entries without a key (transaction counts) only keep the column order right.
+const SUMMARY_LABELS: { key: TotalsKey | null; pattern: string }[] = [
+  { key: 'openingBalance', pattern: 'Opening\\s*Bal(?:ance)?|Balance\\s*B\\/F|Brought\\s*Forward' },
+  { key: 'closingBalance', pattern: 'Closing\\s*Bal(?:ance)?|Balance\\s*C\\/F|Carried\\s*Forward' },
+  { key: 'totalDebits', pattern: '(?:Total\\s*)?(?:Debits|Withdrawals)' },
+  { key: 'totalCredits', pattern: '(?:Total\\s*)?(?:Credits|Deposits)' },
+  { key: null, pattern: 'Dr\\.?\\s*Count' },
+  { key: null, pattern: 'Cr\\.?\\s*Count' }
+];
+
+// Inline "Label: value" form. The amount must follow the label directly (after an
+// optional "as on <date>"), so a "Closing Balance" column header never matches row data.
+const inlinePattern = (label: string): RegExp =>
+  new RegExp(
+    `(?:${label})\\s*(?:\\(?(?:as\\s*(?:on|of)|on)\\s*[\\w\\/\\-\\. ]{6,12}?\\)?)?\\s*[:\\-]?\\s*` +
+      `(?:INR|Rs\\.?|₹)?\\s*(-?\\d[\\d,]*\\.\\d{2})(?![\\d.])\\s*(Cr|Dr)?`,
+    'i'
+  );
+
+// Totals require the word "Total" so the Withdrawals/Deposits column headers don't match
+const INLINE_PATTERNS: Record<TotalsKey, RegExp> = {
+  openingBalance: inlinePattern(SUMMARY_LABELS[0].pattern),
+  closingBalance: inlinePattern(SUMMARY_LABELS[1].pattern),
+  totalDebits: inlinePattern('Total\\s*(?:Debits?|Withdrawals?|Dr\\.?)(?!\\s*Count)'),
+  totalCredits: inlinePattern('Total\\s*(?:Credits?|Deposits?|Cr\\.?)(?!\\s*Count)')
+};
+
+const parseSummaryAmount = (value: string, indicator?: string): Money | undefined => {
+  const amount = parseAmount(value)?.value;
+  // A "Dr" balance is an overdrawn account
+  return amount && indicator && indicator.toLowerCase() === 'dr' ? negateMoney(absMoney(amount)) : amount;
+};
+
+// HDFC-style block: a row of labels followed by a row of values in the same order
+const extractTabularTotals = (text: string): StatementTotals => {
+  const labelPattern = new RegExp(SUMMARY_LABELS.map(label => `(${label.pattern})`).join('|'), 'gi');
+
+  // Group label matches separated only by whitespace into header runs
+  const runs: { key: TotalsKey | null; end: number }[][] = [];
+  let run: { key: TotalsKey | null; end: number }[] = [];
+  for (const match of text.matchAll(labelPattern)) {
+    const previous = run[run.length - 1];
+    if (previous && !/^\s*$/.test(text.slice(previous.end, match.index))) {
+      runs.push(run);
+      run = [];
+    }
+    const groupIndex = match.slice(1).findIndex(group => group !== undefined);
+    run.push({ key: SUMMARY_LABELS[groupIndex].key, end: match.index! + match[0].length });
+  }
+  if (run.length > 0) runs.push(run);
+
+  // Amounts carry paise, transaction counts are plain integers
+  const amountPattern = /^\s*(-?\d[\d,]*\.\d{2})(?![\d.])\s*(Cr|Dr)?/i;
+  const countPattern = /^\s*\d+(?![\d.,/])/;
+  for (const labels of runs.filter(r => r.length >= 3)) {
+    let rest = text.slice(labels[labels.length - 1].end);
+    const totals: StatementTotals = {};
+    const complete = labels.every(label => {
+      const value = rest.match(label.key ? amountPattern : countPattern);
+      if (!value) return false;
+      if (label.key) totals[label.key] = parseSummaryAmount(value[1], value[2]);
+      rest = rest.slice(value[0].length);
+      return true;
+    });
+    if (complete) return totals;
+  }
+
+  return {};
+};
+
+export const extractStatementTotals = (text: string): StatementTotals => {
+  const totals = extractTabularTotals(text);
+
+  for (const key of Object.keys(INLINE_PATTERNS) as TotalsKey[]) {
+    if (totals[key] !== undefined) continue;
+    const match = text.match(INLINE_PATTERNS[key]);
+    if (match) totals[key] = parseSummaryAmount(match[1], match[2]);
+  }
+
+  return totals;
+};
+
+const buildCheck = (label: string, statementValue: Money, computedValue: Money): SummaryCheck => {
+  const difference = subtractMoney(computedValue, statementValue);
+  return {
+    label,
+    statementValue,
+    computedValue,
+    difference,
+    passed: difference.minor === 0
+  };
+};
+
+// Compare the printed summary against sums of the parsed transactions
+export const verifyStatementTotals = (
+  totals: StatementTotals,
+  transactions: ExtractedTransaction[]
+): SummaryCheck[] => {
+  const checks: SummaryCheck[] = [];
+  const currency = transactions[0]?.amount.currency;
+  const debits = sumMoney(transactions.filter(t => t.type === 'debit').map(t => t.amount), currency);
+  const credits = sumMoney(transactions.filter(t => t.type === 'credit').map(t => t.amount), currency);
+
+  if (totals.totalDebits !== undefined) {
+    checks.push(buildCheck('Total debits', totals.totalDebits, debits));
+  }
+
+  if (totals.totalCredits !== undefined) {
+    checks.push(buildCheck('Total credits', totals.totalCredits, credits));
+  }
+
+  if (totals.openingBalance !== undefined && totals.closingBalance !== undefined) {
+    const computedClosing = subtractMoney(sumMoney([totals.openingBalance, credits]), debits);
+    checks.push(buildCheck('Opening + credits - debits = closing', totals.closingBalance, computedClosing));
+  }
+
+  const first = transactions[0];
+  if (totals.openingBalance !== undefined && first?.balance !== undefined) {
+    const computedOpening = money(first.balance.minor - signedMinor(first), first.balance.currency);
+    checks.push(buildCheck('Opening balance vs first row', totals.openingBalance, computedOpening));
+  }
+
+  const last = transactions[transactions.length - 1];
+  if (totals.closingBalance !== undefined && last?.balance !== undefined) {
+    checks.push(buildCheck('Closing balance vs last row', totals.closingBalance, last.balance));
+  }
+
+  return checks;
+};
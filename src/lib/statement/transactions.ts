@@ -0,0 +1,296 @@
+import {
+  parseAmount,
+  parseDrCr,
+  signedBalance,
+  tokenizeAmounts,
+  type AmountParseOptions,
+  type AmountToken
+} from "./amounts";
+import { DATE_PATTERN_SOURCE } from "./dates";
+import { absMoney, formatMoney, type Money } from "./money";
+import type { BankProfile } from "./profiles/types";
+import { extendDescriptionBounds, locateLineFields } from "./sources";
+import type { ExtractedTransaction, PdfTextItem, StatementCell, TransactionType } from "./types";
+
+// Column layout used for tabular previews and exports
+export const STATEMENT_COLUMNS = ['Tran Date', 'Chq No', 'Particulars', 'Debit', 'Credit', 'Balance'];
+
+const GENERIC_DATE = new RegExp(`^(${DATE_PATTERN_SOURCE})\\s+`, 'i');
+const CHEQUE_NUMBER = /(?:^|\s)(\d{6})(?=\s|$)/;
+
+// Wrapped UPI/NEFT narrations rarely run past three extra lines
+export const MAX_CONTINUATION_LINES = 3;
+
+// Page furniture and summary lines that must never join a narration
+const NON_NARRATION_LINE = new RegExp(
+  [
+    '^page\\s*\\d+',
+    '^(?:opening|closing)\\s*bal',
+    '^total',
+    '^statement',
+    '^balance\\s*[bc]\\/f',
+    '^(?:brought|carried)\\s*forward',
+    '^[*\\-=_]{3,}',
+    'computer\\s*generated',
+    'customer\\s*care',
+    'registered\\s*office',
+    'www\\.|https?:',
+    'e-?mail'
+  ].join('|'),
+  'i'
+);
+const COLUMN_HEADER_WORD = /\b(?:date|narration|particulars|withdrawals?|deposits?|debit|credit|balance)\b/gi;
+
+const CREDIT_KEYWORDS = ['deposit', 'credit', 'salary', 'transfer in', 'interest'];
+const DEBIT_KEYWORDS = ['withdrawal', 'debit', 'payment', 'transfer out', 'charge'];
+
+export const amountOptions = (profile: BankProfile | null): AmountParseOptions => ({
+  decimalSeparator: profile?.amountFormat.decimalSeparator
+});
+
+export const determineTransactionType = (
+  indicator: string | undefined,
+  description: string,
+  profile: BankProfile | null = null
+): TransactionType => {
+  const hint = parseDrCr(indicator);
+  if (hint) return hint;
+
+  // Analyze description for credit/debit indicators
+  const creditKeywords = [...(profile?.creditKeywords || []), ...CREDIT_KEYWORDS];
+  const debitKeywords = [...(profile?.debitKeywords || []), ...DEBIT_KEYWORDS];
+
+  const desc = description.toLowerCase();
+
+  if (creditKeywords.some(keyword => desc.includes(keyword))) {
+    return 'credit';
+  }
+
+  if (debitKeywords.some(keyword => desc.includes(keyword))) {
+    return 'debit';
+  }
+
+  return 'debit'; // Default assumption
+};
+
+export const extractReference = (line: string, profile: BankProfile | null): string | undefined => {
+  for (const pattern of profile?.referencePatterns || []) {
+    const match = line.match(pattern);
+    if (match) return match[1];
+  }
+  return undefined;
+};
+
+// Whole-rupee statements print bare numbers, so only the run of numbers that
+// closes the line is taken as Debit/Credit/Balance
+const trailingAmounts = (text: string, options: AmountParseOptions): AmountToken[] => {
+  const tokens = tokenizeAmounts(text, { ...options, wholeNumbers: true });
+  const run: AmountToken[] = [];
+  let end = text.length;
+  for (let i = tokens.length - 1; i >= 0 && run.length < 3; i--) {
+    if (text.slice(tokens[i].index + tokens[i].text.length, end).trim()) break;
+    run.unshift(tokens[i]);
+    end = tokens[i].index;
+  }
+  return run;
+};
+
+// Reads one statement line as a transaction, or null
+export type LineParser = (line: string, profile: BankProfile | null) => ExtractedTransaction | null;
+
+// Fallback for lines the profile pattern misses: a leading date followed by
+// description text and one to three amounts (Debit, Credit, Balance)
+export const parseGenericLine: LineParser = (line, profile) => {
+  const dateMatch = line.match(GENERIC_DATE);
+  if (!dateMatch) return null;
+
+  const rest = line.slice(dateMatch[0].length);
+  const options = amountOptions(profile);
+  let amounts = tokenizeAmounts(rest, options);
+  if (!amounts.some(token => token.hasDecimals)) amounts = trailingAmounts(rest, options);
+  if (amounts.length === 0) return null;
+
+  let description = amounts
+    .reduce((text, token) => text.replace(token.text, ' '), rest)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let reference = extractReference(line, profile);
+  const chequeMatch = description.match(CHEQUE_NUMBER);
+  if (!reference && chequeMatch) {
+    reference = chequeMatch[1];
+    description = description.replace(chequeMatch[1], '').replace(/\s+/g, ' ').trim();
+  }
+
+  let amount = absMoney(amounts[0].value);
+  // A negative amount in a single amount column is money going out
+  let indicator: string | undefined = amounts[0].hint || (amounts[0].value.minor < 0 ? 'debit' : undefined);
+  let balance: Money | undefined;
+
+  if (amounts.length === 2) {
+    balance = signedBalance(amounts[1]);
+  } else if (amounts.length >= 3) {
+    // Debit and Credit columns both printed; the empty side shows 0.00
+    const credit = absMoney(amounts[1].value);
+    if (amount.minor === 0 && credit.minor > 0) {
+      amount = credit;
+      indicator = 'credit';
+    } else {
+      indicator = 'debit';
+    }
+    balance = signedBalance(amounts[amounts.length - 1]);
+  }
+
+  return {
+    // Dates stay raw until the whole statement's day/month order is known
+    date: dateMatch[1],
+    rawDate: dateMatch[1],
+    description,
+    amount,
+    type: determineTransactionType(indicator, description, profile),
+    balance,
+    reference,
+    confidence: 0.7
+  };
+};
+
+// The bank profile's own line pattern; null without a profile
+export const parseProfileLine: LineParser = (line, profile) => {
+  const match = profile && line.match(profile.transactionLine);
+  const options = amountOptions(profile);
+  const amount = match && parseAmount(match[3], options);
+  if (!amount) return null;
+
+  const balance = match[5] ? parseAmount(match[5], options) : null;
+  return {
+    date: match[1],
+    rawDate: match[1],
+    description: match[2].trim(),
+    amount: absMoney(amount.value),
+    type: determineTransactionType(match[4] || amount.hint, match[2], profile),
+    balance: balance ? signedBalance(balance) : undefined,
+    reference: extractReference(line, profile),
+    confidence: 0.9
+  };
+};
+
+// Parse individual transaction line, bank profile pattern first
+export const parseTransactionLine: LineParser = (line, profile) => {
+  try {
+    return parseProfileLine(line, profile) || parseGenericLine(line, profile);
+  } catch (error) {
+    return null;
+  }
+};
+
+export const removeDuplicateTransactions = (transactions: ExtractedTransaction[]): ExtractedTransaction[] => {
+  const seen = new Set<string>();
+  return transactions.filter(transaction => {
+    // Same-day repeats with different balances are genuine transactions
+    const key = `${transaction.date}-${transaction.amount.minor}-${transaction.balance?.minor ?? ''}-${transaction.description.slice(0, 20)}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+// Text that could be the wrapped tail of a narration
+export const isNarrationText = (text: string): boolean =>
+  text.length > 0 &&
+  text.length <= 120 &&
+  !NON_NARRATION_LINE.test(text) &&
+  (text.match(COLUMN_HEADER_WORD) || []).length < 2;
+
+// A line with no leading date and no amount, following a transaction row
+export const isContinuationLine = (line: string): boolean =>
+  isNarrationText(line) && !GENERIC_DATE.test(line) && !tokenizeAmounts(line).some(token => token.hasDecimals);
+
+export const appendParticulars = (transaction: ExtractedTransaction, text: string) => {
+  transaction.description = `${transaction.description} ${text.trim()}`.trim();
+};
+
+export interface ExtractOptions {
+  // Attach wrapped narration lines to the transaction above them
+  mergeParticulars?: boolean;
+  // Positioned items of each line, when the lines came from a page's items;
+  // used to record where each field was read
+  lineItems?: PdfTextItem[][];
+  // How a line is read; the profile pattern with the generic fallback by default
+  lineParser?: LineParser;
+}
+
+export const extractTransactions = (
+  lines: string[],
+  profile: BankProfile | null,
+  options: ExtractOptions = {}
+): ExtractedTransaction[] => {
+  const mergeParticulars = options.mergeParticulars ?? true;
+  const parseLine = options.lineParser ?? parseTransactionLine;
+  const transactions: ExtractedTransaction[] = [];
+  let previous: ExtractedTransaction | null = null;
+  let continuationCount = 0;
+
+  lines.forEach((line, index) => {
+    const transaction = parseLine(line, profile);
+    const items = options.lineItems?.[index];
+    if (transaction) {
+      if (items) transaction.fieldBounds = locateLineFields(items, transaction);
+      transactions.push(transaction);
+      previous = transaction;
+      continuationCount = 0;
+    } else if (
+      mergeParticulars &&
+      previous &&
+      continuationCount < MAX_CONTINUATION_LINES &&
+      isContinuationLine(line)
+    ) {
+      appendParticulars(previous, line);
+      if (items) extendDescriptionBounds(previous, items);
+      continuationCount++;
+    } else {
+      // Anything else ends the current row
+      previous = null;
+    }
+  });
+
+  return removeDuplicateTransactions(transactions);
+};
+
+export const calculateTransactionConfidence = (transaction: ExtractedTransaction): number => {
+  // Base confidence. After several passes it scales with how many read the
+  // row alike, so a row only one pass found lands in the review queue.
+  let confidence = 0.8 * (transaction.agreement ?? 1);
+
+  // Date validation
+  if (!transaction.dateError) confidence += 0.1;
+
+  // Amount validation
+  if (transaction.amount.minor > 0) confidence += 0.05;
+
+  // Description quality
+  if (transaction.description.length > 5) confidence += 0.05;
+
+  // Balance arithmetic is the strongest signal we have
+  if (transaction.balanceCheck === 'break') confidence -= 0.4;
+
+  // On OCR'd rows, a misread cell caps the whole row
+  const cellConfidences = Object.values(transaction.fieldConfidence || {}).filter(value => value !== undefined);
+  if (cellConfidences.length > 0) confidence = Math.min(confidence, ...cellConfidences);
+
+  return Math.max(0, Math.min(confidence, 1.0));
+};
+
+// Lay transactions out in STATEMENT_COLUMNS order; amount cells stay Money
+export const transactionsToRows = (transactions: ExtractedTransaction[]): StatementCell[][] =>
+  transactions.map(transaction => [
+    transaction.date,
+    transaction.reference || '',
+    transaction.description,
+    transaction.type === 'debit' ? transaction.amount : '',
+    transaction.type === 'credit' ? transaction.amount : '',
+    transaction.balance ?? ''
+  ]);
+
+export const cellToText = (cell: StatementCell): string => (typeof cell === 'string' ? cell : formatMoney(cell));
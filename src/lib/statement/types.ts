@@ -0,0 +1,185 @@
+// Shared statement models used by the parser components
+import type { Money } from "./money";
+import type { BankProfile, ColumnRole } from "./profiles/types";
+
+// Text item as returned by pdf.js getTextContent(); transform[4]/[5] are x/y
+export interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width?: number;
+  height?: number;
+  // Word confidence 0–1, only on items recognised by OCR
+  confidence?: number;
+}
+
+export type TransactionType = 'debit' | 'credit';
+
+// How a page's text was obtained
+export type ExtractionMethod = 'text' | 'ocr';
+
+// Pass of multi-pass parsing a row was taken from: the bank profile's line
+// pattern, the generic date-and-amounts pattern, table columns by x-position,
+// or the OCR reading of a page that also has a text layer
+export type ExtractionStrategy = 'profile' | 'generic' | 'columns' | 'ocr';
+
+export type TransactionField = 'date' | 'description' | 'amount' | 'balance' | 'reference';
+
+export type FieldConfidence = Partial<Record<TransactionField, number>>;
+
+// Where each field was read on its page, in PDF points
+export type FieldBounds = Partial<Record<TransactionField, TableRegion>>;
+
+// Table cell in STATEMENT_COLUMNS rows; amounts stay exact until written out
+export type StatementCell = string | Money;
+
+// Outcome of the running-balance check for a single row
+export type BalanceCheckStatus = 'ok' | 'corrected' | 'break' | 'unchecked';
+
+export interface ExtractedTransaction {
+  // ISO date once resolved; the raw text when it could not be read
+  date: string;
+  rawDate?: string;
+  dateError?: string;
+  description: string;
+  amount: Money;
+  type: TransactionType;
+  balance?: Money;
+  // Cheque or reference number ("Chq./Ref. No." column)
+  reference?: string;
+  confidence: number;
+  // OCR confidence of each cell the row was read from, 0–1
+  fieldConfidence?: FieldConfidence;
+  fieldBounds?: FieldBounds;
+  balanceCheck?: BalanceCheckStatus;
+  // Someone looked the row over and accepted it as read
+  reviewed?: boolean;
+  // Page the row was read from (1-based) and whether that page was OCR'd
+  page?: number;
+  source?: ExtractionMethod;
+  // Multi-pass only: the winning pass, and the share of passes (0–1) that
+  // read the same row
+  strategy?: ExtractionStrategy;
+  agreement?: number;
+  // Multi-pass only: no other pass found the row and it breaks the balance,
+  // so it may be junk rather than a transaction
+  unconfirmed?: boolean;
+}
+
+export type ReconciliationIssueKind = 'break' | 'type-corrected' | 'missing' | 'duplicate' | 'unconfirmed';
+
+export interface ReconciliationIssue {
+  kind: ReconciliationIssueKind;
+  // Index into the reconciled transaction list
+  index: number;
+  expectedBalance?: Money;
+  actualBalance?: Money;
+  difference?: Money;
+  message: string;
+}
+
+export interface ReconciliationSummary {
+  issues: ReconciliationIssue[];
+  // Rows whose balance could be compared against the running balance
+  checkedCount: number;
+  matchedCount: number;
+  isBalanced: boolean;
+}
+
+export interface ReconciliationResult extends ReconciliationSummary {
+  transactions: ExtractedTransaction[];
+}
+
+// Summary block printed on the statement itself
+export interface StatementTotals {
+  openingBalance?: Money;
+  closingBalance?: Money;
+  totalDebits?: Money;
+  totalCredits?: Money;
+}
+
+// One comparison between a printed summary figure and the parsed transactions
+export interface SummaryCheck {
+  label: string;
+  statementValue: Money;
+  computedValue: Money;
+  difference: Money;
+  passed: boolean;
+}
+
+// Account details printed at the top of a statement
+export interface StatementHeader {
+  bankName?: string;
+  accountNumber?: string;
+  accountHolder?: string;
+  statementPeriod?: string;
+  ifsc?: string;
+  branch?: string;
+}
+
+export type HeaderField = 'accountNumber' | 'accountHolder' | 'statementPeriod';
+
+// Where each header field's value sits on the first page, in PDF points
+export type HeaderLocations = Partial<Record<HeaderField, TableRegion>>;
+
+// One table column; x0/x1 are the cell boundaries in PDF units
+export interface TemplateColumn {
+  role: ColumnRole | null;
+  label: string;
+  x0: number;
+  x1: number;
+}
+
+// Rectangle on a page in PDF points, origin bottom left
+export interface TableRegion {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// Column layout of a transaction table, reused for pages without a header row
+export interface ColumnTemplate {
+  columns: TemplateColumn[];
+  columnNames: string[];
+  // Only text inside this area is read, on every page
+  region?: TableRegion;
+  // Drawn by hand; header rows found later don't replace it
+  manual?: boolean;
+}
+
+// Everything the parser knows about one statement
+export interface ParsedStatement {
+  profile: BankProfile | null;
+  header: StatementHeader;
+  totals: StatementTotals;
+  transactions: ExtractedTransaction[];
+  reconciliation: ReconciliationSummary;
+  summaryChecks: SummaryCheck[];
+  accuracy: number;
+  columnTemplate: ColumnTemplate | null;
+}
+
+// Where each page's text came from; pages are 1-based
+export interface PageSources {
+  text: number[];
+  ocr: number[];
+  // Pages that produced no text at all
+  empty: number[];
+  // Tesseract languages used on the OCR pages
+  ocrLanguages?: string[];
+}
+
+export interface BankStatementData {
+  fileName: string;
+  bankName: string;
+  accountNumber: string;
+  accountHolder: string;
+  statementPeriod: string;
+  transactions: ExtractedTransaction[];
+  accuracy: number;
+  processingMethod: string;
+  reconciliation?: ReconciliationSummary;
+  totals: StatementTotals;
+  summaryChecks: SummaryCheck[];
+  pageSources?: PageSources;
+}
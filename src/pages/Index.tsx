@@ -4,6 +4,23 @@ import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import UploadProgress from "@/components/UploadProgress";
 import EnhancedBankStatementParser from "@/components/EnhancedBankStatementParser";
+import PdfPasswordDialog from "@/components/PdfPasswordDialog";
+import { usePdfPassword } from "@/hooks/use-pdf-password";
+import { isPasswordSkipped } from "@/lib/pdf";
+import {
+  buildStatementFile,
+  createProgressTracker,
+  describePageSources,
+  downloadBlob,
+  formatPageList,
+  isAbortError,
+  pageSources,
+  processStatement,
+  statementSheet,
+  statementWarnings,
+  type ConversionProgress,
+  type ExportedFile
+} from "@/lib/pipeline";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { 
@@ -20,7 +37,62 @@ import { toast } from "sonner";
 const Index = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [progress, setProgress] = useState<ConversionProgress | null>(null);
+  const [conversionError, setConversionError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [sourceSummary, setSourceSummary] = useState("");
+  const [convertedFile, setConvertedFile] = useState<ExportedFile | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { openDocument, dialogProps: passwordDialogProps } = usePdfPassword();
+
+  // Convert one statement straight to a spreadsheet, ready to download
+  const convertFile = async (file: File) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // A replaced or cancelled conversion must not touch the current one's state
+    const isCurrent = () => abortRef.current === controller;
+    const tracker = createProgressTracker(next => {
+      if (isCurrent()) setProgress(next);
+    });
+
+    try {
+      tracker.stage('load');
+      const pdf = await openDocument(await file.arrayBuffer(), file.name, () => tracker.stage('decrypt'));
+      const { pages, parsed } = await processStatement(pdf, {
+        signal: controller.signal,
+        onProgress: tracker.pipeline,
+        preprocess: true
+      });
+      const sources = pageSources(pages);
+
+      tracker.stage('validate');
+      const found = statementWarnings(parsed);
+      if (sources.empty.length > 0) {
+        found.unshift(`No text found on page(s) ${formatPageList(sources.empty)}`);
+      }
+
+      tracker.stage('export');
+      const output = await buildStatementFile(statementSheet(file.name, parsed), 'xlsx');
+      if (!isCurrent()) return;
+      setWarnings(found);
+      setSourceSummary(describePageSources(sources));
+      setConvertedFile(output);
+      tracker.stage('done');
+    } catch (error) {
+      if (!isCurrent()) return;
+      if (isAbortError(error)) {
+        toast.info('Conversion cancelled');
+        handleReset();
+        return;
+      }
+      console.error('Conversion error:', error);
+      setConversionError(isPasswordSkipped(error)
+        ? 'This PDF is password protected and no password was given'
+        : 'Could not convert this PDF: ' + (error as Error).message);
+    }
+  };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -40,7 +112,12 @@ const Index = () => {
 
     setSelectedFile(file);
     setIsUploading(true);
-    toast.success('PDF uploaded successfully!');
+    setProgress(null);
+    setConversionError(null);
+    setWarnings([]);
+    setSourceSummary("");
+    setConvertedFile(null);
+    convertFile(file);
   };
 
   const handleUploadClick = () => {
@@ -48,14 +125,26 @@ const Index = () => {
   };
 
   const handleDownload = () => {
-    // Simulate download
+    if (!convertedFile) return;
+    downloadBlob(convertedFile.blob, convertedFile.fileName);
     toast.success('Excel file downloaded successfully!');
     handleReset();
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   const handleReset = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
     setSelectedFile(null);
     setIsUploading(false);
+    setProgress(null);
+    setConversionError(null);
+    setWarnings([]);
+    setSourceSummary("");
+    setConvertedFile(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -109,7 +198,12 @@ const Index = () => {
               {isUploading && (
                 <UploadProgress
                   file={selectedFile}
+                  progress={progress}
+                  error={conversionError}
+                  warnings={warnings}
+                  sourceSummary={sourceSummary}
                   onDownload={handleDownload}
+                  onCancel={handleCancel}
                   onReset={handleReset}
                 />
               )}
@@ -210,10 +304,17 @@ const Index = () => {
               Join thousands of users who trust us with their bank statement conversions
             </p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              <Button variant="glow" size="lg">
+              <Button variant="glow" size="lg" onClick={handleUploadClick}>
                 <Upload className="mr-2 h-5 w-5" />
                 Start Converting Now
               </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
               <Button variant="outline" size="lg">
                 View Pricing Plans
               </Button>
@@ -223,6 +324,7 @@ const Index = () => {
       </main>
 
       <Footer />
+      <PdfPasswordDialog {...passwordDialogProps} />
     </div>
   );
 };
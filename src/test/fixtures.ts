@@ -0,0 +1,49 @@
+import { money, type ExtractedTransaction, type PdfTextItem } from "@/lib/statement";
+
+// A statement row in rupees; amount and balance are given in paise
+export const row = (
+  amount: number,
+  type: ExtractedTransaction['type'],
+  balance?: number,
+  fields: Partial<ExtractedTransaction> = {}
+): ExtractedTransaction => ({
+  date: '2024-02-01',
+  description: 'UPI payment',
+  amount: money(amount),
+  type,
+  balance: balance === undefined ? undefined : money(balance),
+  confidence: 0.9,
+  ...fields
+});
+
+// A pdf.js text item at (x, y) in PDF points, 10pt type
+export const textItem = (str: string, x: number, y: number, confidence?: number): PdfTextItem => ({
+  str,
+  transform: [10, 0, 0, 10, x, y],
+  width: str.length * 5,
+  height: 10,
+  confidence
+});
+
+// Columns of the statement page built by `statementPage`
+const COLUMN_X = { date: 40, particulars: 120, withdrawal: 300, deposit: 380, balance: 460 };
+
+export type StatementLine = [date: string, particulars: string, withdrawal: string, deposit: string, balance: string];
+
+// A page with an opening balance, a table header and one item line per row,
+// 20pt apart
+export const statementPage = (lines: StatementLine[], confidence?: number): PdfTextItem[] => [
+  textItem('Opening Balance 6,000.00', COLUMN_X.date, 720, confidence),
+  textItem('Date', COLUMN_X.date, 700, confidence),
+  textItem('Particulars', COLUMN_X.particulars, 700, confidence),
+  textItem('Withdrawal', COLUMN_X.withdrawal, 700, confidence),
+  textItem('Deposit', COLUMN_X.deposit, 700, confidence),
+  textItem('Balance', COLUMN_X.balance, 700, confidence),
+  ...lines.flatMap((cells, index) => {
+    const y = 680 - index * 20;
+    return cells
+      .map((text, column) => [text, Object.values(COLUMN_X)[column]] as const)
+      .filter(([text]) => text)
+      .map(([text, x]) => textItem(text, x, y, confidence));
+  })
+];
@@ -1,8 +1,51 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// OCR languages shipped with the app; src/lib/pipeline/languages.ts lists them for the UI
+const TESSERACT_LANGUAGES = ["eng", "hin", "mar", "guj", "pan", "ben", "tam", "tel", "kan", "mal"];
+
+// Tesseract loads its worker, WASM core and traineddata by URL at runtime, so
+// these files are served from node_modules in dev and copied into the build
+const tesseractFiles = (): Record<string, string> => ({
+  "tesseract/worker.min.js": "tesseract.js/dist/worker.min.js",
+  "tesseract/core/tesseract-core-lstm.wasm.js": "tesseract.js-core/tesseract-core-lstm.wasm.js",
+  "tesseract/core/tesseract-core-simd-lstm.wasm.js": "tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+  "tesseract/core/tesseract-core-relaxedsimd-lstm.wasm.js": "tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js",
+  ...Object.fromEntries(
+    TESSERACT_LANGUAGES.map(lang => [
+      `tesseract/lang/${lang}.traineddata.gz`,
+      `@tesseract.js-data/${lang}/4.0.0_best_int/${lang}.traineddata.gz`,
+    ])
+  ),
+});
+
+const tesseractAssets = (): Plugin => {
+  const files = tesseractFiles();
+  const source = (file: string) => path.resolve(__dirname, "node_modules", file);
+
+  return {
+    name: "tesseract-assets",
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const url = (req.url || "").split("?")[0].replace(server.config.base, "");
+        const file = files[url];
+        if (!file) return next();
+        // Served as plain bytes; Tesseract gunzips the traineddata itself
+        res.setHeader("Content-Type", file.endsWith(".js") ? "text/javascript" : "application/octet-stream");
+        fs.createReadStream(source(file)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const [fileName, file] of Object.entries(files)) {
+        this.emitFile({ type: "asset", fileName, source: fs.readFileSync(source(file)) });
+      }
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +54,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    tesseractAssets(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),